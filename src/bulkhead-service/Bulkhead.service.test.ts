@@ -0,0 +1,195 @@
+import { LogHandler } from "../logger-service/Logger.service";
+import {
+  BulkheadFullError,
+  RetryAbortedError,
+  RetryConfigurationError,
+} from "../retry-service/Retry.service";
+import { Bulkhead } from "./Bulkhead.service";
+import type { BulkheadOptions } from "./Bulkhead.service";
+
+describe("Bulkhead", () => {
+  let mockLogger: LogHandler;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+
+  const createBulkhead = (options: BulkheadOptions) =>
+    new Bulkhead(options, mockLogger, mockTimer);
+
+  const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      error: vi.fn(),
+      trace: vi.fn(),
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    };
+    mockTimer = {
+      delay: vi.fn(() => new Promise<void>(() => {})),
+      now: vi.fn(() => 0),
+    };
+  });
+
+  it("should grant slots up to the concurrency limit", async () => {
+    // Given
+    const bulkhead = createBulkhead({ maxConcurrent: 2 });
+
+    // When
+    await bulkhead.acquire();
+    await bulkhead.acquire();
+
+    // Then
+    expect(bulkhead.active).toBe(2);
+    expect(bulkhead.queued).toBe(0);
+  });
+
+  it("should reject with a BulkheadFullError when the queue is full", async () => {
+    // Given
+    const bulkhead = createBulkhead({ name: "payments", maxConcurrent: 1 });
+    await bulkhead.acquire();
+
+    // When/Then
+    await expect(bulkhead.acquire()).rejects.toThrow(
+      new BulkheadFullError('Bulkhead "payments" is full')
+    );
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it("should hand a released slot to the next queued execution in order", async () => {
+    // Given
+    const bulkhead = createBulkhead({ maxConcurrent: 1, maxQueue: 2 });
+    const granted: string[] = [];
+    await bulkhead.acquire();
+    bulkhead.acquire().then(() => granted.push("first"));
+    bulkhead.acquire().then(() => granted.push("second"));
+
+    // When
+    bulkhead.release();
+    await flushPromises();
+
+    // Then
+    expect(granted).toEqual(["first"]);
+    expect(bulkhead.active).toBe(1);
+    expect(bulkhead.queued).toBe(1);
+  });
+
+  it("should free the slot when nothing is queued", async () => {
+    // Given
+    const bulkhead = createBulkhead({ maxConcurrent: 1 });
+    await bulkhead.acquire();
+
+    // When
+    bulkhead.release();
+
+    // Then
+    expect(bulkhead.active).toBe(0);
+  });
+
+  it("should reject a queued execution after the queue timeout", async () => {
+    // Given
+    let expireQueueTimeout: () => void = () => {};
+    mockTimer.delay.mockImplementation(
+      () =>
+        new Promise<void>((resolve) => {
+          expireQueueTimeout = resolve;
+        })
+    );
+    const bulkhead = createBulkhead({
+      maxConcurrent: 1,
+      maxQueue: 1,
+      queueTimeout: 500,
+    });
+    await bulkhead.acquire();
+    const queued = bulkhead.acquire();
+
+    // When
+    expireQueueTimeout();
+
+    // Then
+    await expect(queued).rejects.toThrow(BulkheadFullError);
+    expect(mockTimer.delay).toHaveBeenCalledWith(500, expect.any(AbortSignal));
+    expect(bulkhead.queued).toBe(0);
+  });
+
+  it("should cancel the queue timeout once a slot is granted", async () => {
+    // Given
+    const bulkhead = createBulkhead({
+      maxConcurrent: 1,
+      maxQueue: 1,
+      queueTimeout: 500,
+    });
+    await bulkhead.acquire();
+    const queued = bulkhead.acquire();
+    const timerSignal: AbortSignal = mockTimer.delay.mock.calls[0][1];
+
+    // When
+    bulkhead.release();
+
+    // Then
+    await expect(queued).resolves.toBeUndefined();
+    expect(timerSignal.aborted).toBe(true);
+  });
+
+  it("should leave the queue when the signal is aborted", async () => {
+    // Given
+    const bulkhead = createBulkhead({ maxConcurrent: 1, maxQueue: 1 });
+    const controller = new AbortController();
+    await bulkhead.acquire();
+    const queued = bulkhead.acquire(controller.signal);
+
+    // When
+    controller.abort();
+
+    // Then
+    await expect(queued).rejects.toThrow(RetryAbortedError);
+    expect(bulkhead.queued).toBe(0);
+  });
+
+  describe("execute", () => {
+    it("should release the slot after the function settles", async () => {
+      // Given
+      const bulkhead = createBulkhead({ maxConcurrent: 1 });
+
+      // When
+      const result = await bulkhead.execute(async () => "success");
+      const failure = bulkhead.execute(async () => {
+        throw new Error("Downstream failure");
+      });
+
+      // Then
+      expect(result).toBe("success");
+      await expect(failure).rejects.toThrow("Downstream failure");
+      expect(bulkhead.active).toBe(0);
+    });
+
+    it("should not call the function when the bulkhead is full", async () => {
+      // Given
+      const bulkhead = createBulkhead({ maxConcurrent: 1 });
+      await bulkhead.acquire();
+      const fn = vi.fn(async () => "success");
+
+      // When/Then
+      await expect(bulkhead.execute(fn)).rejects.toThrow(BulkheadFullError);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  it.each([
+    { name: "zero max concurrent", options: { maxConcurrent: 0 } },
+    {
+      name: "negative max queue",
+      options: { maxConcurrent: 1, maxQueue: -1 },
+    },
+    {
+      name: "zero queue timeout",
+      options: { maxConcurrent: 1, queueTimeout: 0 },
+    },
+  ])("should throw RetryConfigurationError for $name", ({ options }) => {
+    // When/Then
+    expect(() => createBulkhead(options)).toThrow(RetryConfigurationError);
+  });
+});
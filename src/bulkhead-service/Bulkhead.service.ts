@@ -0,0 +1,219 @@
+import { logger } from "../logger-service/Logger.service";
+import type { LogHandler } from "../logger-service/Logger.service";
+import {
+  BulkheadFullError,
+  DefaultTimer,
+  RetryAbortedError,
+  RetryConfigurationError,
+} from "../retry-service/Retry.service";
+import type { Timer } from "../retry-service/Retry.service";
+
+export interface BulkheadOptions {
+  /**
+   * Name used in log messages and errors.
+   * @default "default"
+   */
+  name?: string;
+  /**
+   * Maximum number of executions running at the same time.
+   */
+  maxConcurrent: number;
+  /**
+   * Maximum number of executions waiting for a slot. Executions beyond
+   * it are rejected with a BulkheadFullError.
+   * @default 0
+   */
+  maxQueue?: number;
+  /**
+   * Time in milliseconds an execution may wait for a slot before it is
+   * rejected with a BulkheadFullError.
+   * When undefined, queued executions wait until a slot frees up.
+   */
+  queueTimeout?: number;
+}
+
+interface QueuedExecution {
+  grant: () => void;
+}
+
+/**
+ * Concurrency limiter isolating calls to a dependency.
+ *
+ * At most maxConcurrent executions hold a slot at the same time. Further
+ * executions wait in a first-in, first-out queue of at most maxQueue
+ * entries, for at most queueTimeout milliseconds. A slot is handed directly
+ * to the next queued execution when it is released.
+ *
+ * Can be used standalone through execute(), or shared between retry calls
+ * through the bulkhead option of RetryService.retry, in which case every
+ * attempt runs in a slot of its own.
+ *
+ * @example
+ * const bulkhead = new Bulkhead({ name: "payments", maxConcurrent: 5, maxQueue: 20 });
+ * await retryService.retry(chargeCard, { retries: 3, bulkhead });
+ */
+export class Bulkhead {
+  private readonly logger: LogHandler;
+  private readonly timer: Timer;
+  private readonly name: string;
+  private readonly maxConcurrent: number;
+  private readonly maxQueue: number;
+  private readonly queueTimeout?: number;
+
+  private activeCount = 0;
+  private queue: QueuedExecution[] = [];
+
+  constructor(
+    options: BulkheadOptions,
+    loggerInstance?: LogHandler,
+    timer: Timer = DefaultTimer
+  ) {
+    Bulkhead.validateOptions(options);
+
+    this.logger = loggerInstance ?? logger;
+    this.timer = timer;
+    this.name = options.name ?? "default";
+    this.maxConcurrent = options.maxConcurrent;
+    this.maxQueue = options.maxQueue ?? 0;
+    this.queueTimeout = options.queueTimeout;
+  }
+
+  private static validateOptions(options: BulkheadOptions): void {
+    if (!(options.maxConcurrent >= 1)) {
+      throw new RetryConfigurationError(
+        "Bulkhead max concurrent must be at least 1"
+      );
+    }
+
+    if (options.maxQueue !== undefined && options.maxQueue < 0) {
+      throw new RetryConfigurationError(
+        "Bulkhead max queue cannot be negative"
+      );
+    }
+
+    if (options.queueTimeout !== undefined && options.queueTimeout <= 0) {
+      throw new RetryConfigurationError(
+        "Bulkhead queue timeout must be greater than zero"
+      );
+    }
+  }
+
+  /**
+   * Number of executions currently holding a slot
+   */
+  public get active(): number {
+    return this.activeCount;
+  }
+
+  /**
+   * Number of executions currently waiting for a slot
+   */
+  public get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Runs the function in a slot, waiting for one if necessary
+   * @throws BulkheadFullError if the queue is full or the queue timeout passes
+   */
+  public async execute<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Takes a slot, waiting in the queue when all slots are taken.
+   * Every successful acquire must be followed by exactly one release.
+   * @param signal Removes the execution from the queue when aborted
+   * @throws BulkheadFullError if the queue is full or the queue timeout passes
+   * @throws RetryAbortedError if the signal is aborted while waiting
+   */
+  public acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(Bulkhead.abortError(signal));
+    }
+
+    if (this.activeCount < this.maxConcurrent) {
+      this.activeCount += 1;
+
+      return Promise.resolve();
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      this.logger.warn(`Bulkhead "${this.name}" is full, rejecting execution`);
+
+      return Promise.reject(
+        new BulkheadFullError(`Bulkhead "${this.name}" is full`)
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const timerController = new AbortController();
+      const entry: QueuedExecution = {
+        grant: () => {
+          cleanup();
+          resolve();
+        },
+      };
+      const leave = (error: Error) => {
+        this.queue = this.queue.filter((queued) => queued !== entry);
+        cleanup();
+        reject(error);
+      };
+      const onAbort = () => leave(Bulkhead.abortError(signal!));
+      const cleanup = () => {
+        timerController.abort();
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      this.queue.push(entry);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      if (this.queueTimeout !== undefined) {
+        const { queueTimeout } = this;
+
+        this.timer.delay(queueTimeout, timerController.signal).then(() => {
+          if (timerController.signal.aborted) {
+            return;
+          }
+
+          this.logger.warn(
+            `Bulkhead "${this.name}" queue timeout of ${queueTimeout}ms exceeded`
+          );
+
+          leave(
+            new BulkheadFullError(
+              `Bulkhead "${this.name}" queue timeout of ${queueTimeout}ms exceeded`
+            )
+          );
+        });
+      }
+    });
+  }
+
+  /**
+   * Frees a slot, handing it to the next queued execution if any
+   */
+  public release(): void {
+    const next = this.queue.shift();
+
+    if (next) {
+      next.grant();
+      return;
+    }
+
+    this.activeCount = Math.max(0, this.activeCount - 1);
+  }
+
+  private static abortError(signal: AbortSignal): RetryAbortedError {
+    return new RetryAbortedError(
+      "Bulkhead wait aborted",
+      signal.reason instanceof Error ? signal.reason : undefined
+    );
+  }
+}
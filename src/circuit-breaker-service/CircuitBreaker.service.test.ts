@@ -0,0 +1,392 @@
+import { LogHandler } from "../logger-service/Logger.service";
+import {
+  CircuitOpenError,
+  RetryConfigurationError,
+} from "../retry-service/Retry.service";
+import { CircuitBreaker } from "./CircuitBreaker.service";
+import type { CircuitBreakerOptions } from "./CircuitBreaker.service";
+
+describe("CircuitBreaker", () => {
+  let mockLogger: LogHandler;
+  let time: number;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+
+  const createBreaker = (options: CircuitBreakerOptions = {}) =>
+    new CircuitBreaker(options, mockLogger, mockTimer);
+
+  const fail = (breaker: CircuitBreaker, times = 1) => {
+    for (let i = 0; i < times; i += 1) {
+      breaker.recordFailure(
+        breaker.acquirePermission(),
+        new Error("Downstream failure")
+      );
+    }
+  };
+
+  const succeed = (breaker: CircuitBreaker, times = 1) => {
+    for (let i = 0; i < times; i += 1) {
+      breaker.recordSuccess(breaker.acquirePermission());
+    }
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      error: vi.fn(),
+      trace: vi.fn(),
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    };
+    time = 0;
+    mockTimer = {
+      delay: vi.fn().mockResolvedValue(undefined),
+      now: vi.fn(() => time),
+    };
+  });
+
+  describe("consecutive failures", () => {
+    it("should start closed", () => {
+      // Given
+      const breaker = createBreaker();
+
+      // When/Then
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should open after the consecutive failure threshold", () => {
+      // Given
+      const breaker = createBreaker({ consecutiveFailureThreshold: 3 });
+
+      // When
+      fail(breaker, 2);
+      const stateBeforeThreshold = breaker.state;
+      fail(breaker);
+
+      // Then
+      expect(stateBeforeThreshold).toBe("closed");
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should reset the consecutive count on success", () => {
+      // Given
+      const breaker = createBreaker({ consecutiveFailureThreshold: 3 });
+
+      // When
+      fail(breaker, 2);
+      succeed(breaker);
+      fail(breaker, 2);
+
+      // Then
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should default to five consecutive failures", () => {
+      // Given
+      const breaker = createBreaker();
+
+      // When
+      fail(breaker, 5);
+
+      // Then
+      expect(breaker.state).toBe("open");
+    });
+  });
+
+  describe("failure rate", () => {
+    it("should open when the failure rate in the window reaches the threshold", () => {
+      // Given
+      const breaker = createBreaker({
+        failureRateThreshold: 0.5,
+        minimumCalls: 4,
+      });
+
+      // When
+      succeed(breaker);
+      fail(breaker);
+      succeed(breaker);
+      fail(breaker);
+
+      // Then
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should wait for the minimum number of calls", () => {
+      // Given
+      const breaker = createBreaker({
+        failureRateThreshold: 0.5,
+        minimumCalls: 4,
+      });
+
+      // When
+      fail(breaker, 3);
+
+      // Then
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should forget calls outside the rolling window", () => {
+      // Given
+      const breaker = createBreaker({
+        failureRateThreshold: 0.5,
+        minimumCalls: 4,
+        rollingWindow: 1000,
+      });
+
+      // When
+      fail(breaker, 3);
+      time = 2000;
+      succeed(breaker, 3);
+      fail(breaker);
+
+      // Then
+      expect(breaker.state).toBe("closed");
+    });
+  });
+
+  describe("open and half-open", () => {
+    it("should reject calls while open", () => {
+      // Given
+      const breaker = createBreaker({ consecutiveFailureThreshold: 1 });
+      fail(breaker);
+
+      // When/Then
+      expect(() => breaker.acquirePermission()).toThrow(CircuitOpenError);
+    });
+
+    it("should turn half-open after the cooldown", () => {
+      // Given
+      const breaker = createBreaker({
+        consecutiveFailureThreshold: 1,
+        cooldown: 1000,
+      });
+      fail(breaker);
+
+      // When
+      time = 999;
+      const stateDuringCooldown = breaker.state;
+      time = 1000;
+
+      // Then
+      expect(stateDuringCooldown).toBe("open");
+      expect(breaker.state).toBe("half-open");
+    });
+
+    it("should limit the number of concurrent probes", () => {
+      // Given
+      const breaker = createBreaker({
+        consecutiveFailureThreshold: 1,
+        cooldown: 1000,
+        halfOpenMaxProbes: 2,
+      });
+      fail(breaker);
+      time = 1000;
+
+      // When
+      breaker.acquirePermission();
+      breaker.acquirePermission();
+
+      // Then
+      expect(() => breaker.acquirePermission()).toThrow(CircuitOpenError);
+    });
+
+    it("should close once every probe succeeds", () => {
+      // Given
+      const breaker = createBreaker({
+        consecutiveFailureThreshold: 1,
+        cooldown: 1000,
+        halfOpenMaxProbes: 2,
+      });
+      fail(breaker);
+      time = 1000;
+
+      // When
+      succeed(breaker);
+      const stateAfterFirstProbe = breaker.state;
+      succeed(breaker);
+
+      // Then
+      expect(stateAfterFirstProbe).toBe("half-open");
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should reopen when a probe fails", () => {
+      // Given
+      const breaker = createBreaker({
+        consecutiveFailureThreshold: 1,
+        cooldown: 1000,
+      });
+      fail(breaker);
+      time = 1000;
+
+      // When
+      fail(breaker);
+
+      // Then
+      expect(breaker.state).toBe("open");
+      time = 1999;
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should free a probe when its permission is released", () => {
+      // Given
+      const breaker = createBreaker({
+        consecutiveFailureThreshold: 1,
+        cooldown: 1000,
+      });
+      fail(breaker);
+      time = 1000;
+      const probe = breaker.acquirePermission();
+
+      // When
+      breaker.releasePermission(probe);
+
+      // Then
+      expect(() => breaker.acquirePermission()).not.toThrow();
+    });
+    it("should not count calls permitted before the circuit opened as probes", () => {
+      // Given
+      const breaker = createBreaker({
+        consecutiveFailureThreshold: 1,
+        cooldown: 1000,
+      });
+      const slowCall = breaker.acquirePermission();
+      fail(breaker);
+      time = 1000;
+      const probe = breaker.acquirePermission();
+
+      // When
+      breaker.recordSuccess(slowCall);
+
+      // Then
+      expect(breaker.state).toBe("half-open");
+      expect(() => breaker.acquirePermission()).toThrow(CircuitOpenError);
+      breaker.recordSuccess(probe);
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should not reopen the circuit for late failures of earlier calls", () => {
+      // Given
+      const breaker = createBreaker({
+        consecutiveFailureThreshold: 1,
+        cooldown: 1000,
+      });
+      const slowCall = breaker.acquirePermission();
+      fail(breaker);
+      time = 1000;
+      breaker.acquirePermission();
+
+      // When
+      breaker.recordFailure(slowCall, new Error("Downstream failure"));
+
+      // Then
+      expect(breaker.state).toBe("half-open");
+    });
+  });
+
+  describe("execute", () => {
+    it("should run the function and record its outcome", async () => {
+      // Given
+      const breaker = createBreaker({ consecutiveFailureThreshold: 2 });
+      const failingFn = vi.fn(async () => {
+        throw new Error("Downstream failure");
+      });
+
+      // When
+      await expect(breaker.execute(failingFn)).rejects.toThrow(
+        "Downstream failure"
+      );
+      await expect(breaker.execute(failingFn)).rejects.toThrow(
+        "Downstream failure"
+      );
+
+      // Then
+      await expect(breaker.execute(failingFn)).rejects.toThrow(
+        CircuitOpenError
+      );
+      expect(failingFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return the result of a successful call", async () => {
+      // Given
+      const breaker = createBreaker();
+
+      // When
+      const result = await breaker.execute(async () => "success");
+
+      // Then
+      expect(result).toBe("success");
+    });
+  });
+
+  it("should ignore errors that are not failures", () => {
+    // Given
+    const breaker = createBreaker({
+      consecutiveFailureThreshold: 1,
+      isFailure: (error) => (error as Error).message !== "Not found",
+    });
+
+    // When
+    breaker.recordFailure(breaker.acquirePermission(), new Error("Not found"));
+
+    // Then
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should log state transitions", () => {
+    // Given
+    const breaker = createBreaker({
+      name: "payments",
+      consecutiveFailureThreshold: 1,
+      cooldown: 1000,
+    });
+
+    // When
+    fail(breaker);
+    time = 1000;
+    succeed(breaker);
+
+    // Then
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Circuit "payments" transitioned from closed to open'
+    );
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'Circuit "payments" transitioned from open to half-open'
+    );
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'Circuit "payments" transitioned from half-open to closed'
+    );
+  });
+
+  it("should close and forget failures on reset", () => {
+    // Given
+    const breaker = createBreaker({ consecutiveFailureThreshold: 2 });
+    fail(breaker, 2);
+
+    // When
+    breaker.reset();
+    fail(breaker);
+
+    // Then
+    expect(breaker.state).toBe("closed");
+  });
+
+  it.each([
+    {
+      name: "zero consecutive failures",
+      options: { consecutiveFailureThreshold: 0 },
+    },
+    { name: "failure rate above 1", options: { failureRateThreshold: 1.5 } },
+    { name: "zero failure rate", options: { failureRateThreshold: 0 } },
+    { name: "zero minimum calls", options: { minimumCalls: 0 } },
+    { name: "zero rolling window", options: { rollingWindow: 0 } },
+    { name: "negative cooldown", options: { cooldown: -1 } },
+    { name: "zero half-open probes", options: { halfOpenMaxProbes: 0 } },
+  ])("should throw RetryConfigurationError for $name", ({ options }) => {
+    // When/Then
+    expect(() => createBreaker(options)).toThrow(RetryConfigurationError);
+  });
+});
@@ -0,0 +1,369 @@
+import { logger } from "../logger-service/Logger.service";
+import type { LogHandler } from "../logger-service/Logger.service";
+import {
+  CircuitOpenError,
+  DefaultTimer,
+  RetryConfigurationError,
+} from "../retry-service/Retry.service";
+import type { Timer } from "../retry-service/Retry.service";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /**
+   * Name used in log messages and errors.
+   * @default "default"
+   */
+  name?: string;
+  /**
+   * Number of consecutive failures that opens the circuit.
+   * @default 5 when failureRateThreshold is undefined
+   */
+  consecutiveFailureThreshold?: number;
+  /**
+   * Failure rate between 0 and 1 within the rolling window that opens the circuit.
+   * When undefined, the failure rate is not evaluated.
+   */
+  failureRateThreshold?: number;
+  /**
+   * Minimum number of calls within the rolling window before the
+   * failure rate is evaluated.
+   * @default 10
+   */
+  minimumCalls?: number;
+  /**
+   * Length of the rolling window in milliseconds.
+   * @default 60000
+   */
+  rollingWindow?: number;
+  /**
+   * Time in milliseconds the circuit stays open before allowing probes.
+   * @default 30000
+   */
+  cooldown?: number;
+  /**
+   * Number of probe calls allowed while half-open. The circuit closes
+   * once all of them succeed and reopens on the first failure.
+   * @default 1
+   */
+  halfOpenMaxProbes?: number;
+  /**
+   * Function to determine if an error counts as a failure.
+   * Errors that don't count are ignored by the circuit.
+   * When undefined, every error counts.
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Permission for one call through the circuit, handed back when the
+ * outcome of the call is recorded
+ */
+export interface CircuitPermission {
+  /** Whether the call was let through as a half-open probe */
+  probe: boolean;
+  /** Generation of the circuit state the permission was granted in */
+  generation: number;
+}
+
+interface CallOutcome {
+  time: number;
+  failed: boolean;
+}
+
+/**
+ * Circuit breaker that stops calls to a failing dependency.
+ *
+ * The circuit starts closed and lets every call through. Once the failure
+ * threshold is reached it opens and rejects calls with a CircuitOpenError
+ * until the cooldown has passed. It then turns half-open and lets a limited
+ * number of probe calls through, which close the circuit again when they
+ * succeed or reopen it when one of them fails.
+ *
+ * Can be used standalone through execute(), or shared between retry calls
+ * through the circuitBreaker option of RetryService.retry.
+ *
+ * @example
+ * const breaker = new CircuitBreaker({ name: "payments", cooldown: 10_000 });
+ * await retryService.retry(chargeCard, { retries: 3, circuitBreaker: breaker });
+ */
+export class CircuitBreaker {
+  private readonly logger: LogHandler;
+  private readonly timer: Timer;
+  private readonly name: string;
+  private readonly consecutiveFailureThreshold?: number;
+  private readonly failureRateThreshold?: number;
+  private readonly minimumCalls: number;
+  private readonly rollingWindow: number;
+  private readonly cooldown: number;
+  private readonly halfOpenMaxProbes: number;
+  private readonly isFailure?: (error: unknown) => boolean;
+
+  private currentState: CircuitState = "closed";
+  private openedAt = 0;
+  private consecutiveFailures = 0;
+  private outcomes: CallOutcome[] = [];
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+  /** Incremented on every transition, so stale permissions can be told apart */
+  private generation = 0;
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    loggerInstance?: LogHandler,
+    timer: Timer = DefaultTimer
+  ) {
+    CircuitBreaker.validateOptions(options);
+
+    this.logger = loggerInstance ?? logger;
+    this.timer = timer;
+    this.name = options.name ?? "default";
+    this.consecutiveFailureThreshold =
+      options.consecutiveFailureThreshold ??
+      (options.failureRateThreshold === undefined ? 5 : undefined);
+    this.failureRateThreshold = options.failureRateThreshold;
+    this.minimumCalls = options.minimumCalls ?? 10;
+    this.rollingWindow = options.rollingWindow ?? 60_000;
+    this.cooldown = options.cooldown ?? 30_000;
+    this.halfOpenMaxProbes = options.halfOpenMaxProbes ?? 1;
+    this.isFailure = options.isFailure;
+  }
+
+  private static validateOptions(options: CircuitBreakerOptions): void {
+    if (
+      options.consecutiveFailureThreshold !== undefined &&
+      options.consecutiveFailureThreshold < 1
+    ) {
+      throw new RetryConfigurationError(
+        "Consecutive failure threshold must be at least 1"
+      );
+    }
+
+    if (
+      options.failureRateThreshold !== undefined &&
+      (options.failureRateThreshold <= 0 || options.failureRateThreshold > 1)
+    ) {
+      throw new RetryConfigurationError(
+        "Failure rate threshold must be greater than 0 and at most 1"
+      );
+    }
+
+    if (options.minimumCalls !== undefined && options.minimumCalls < 1) {
+      throw new RetryConfigurationError("Minimum calls must be at least 1");
+    }
+
+    if (options.rollingWindow !== undefined && options.rollingWindow <= 0) {
+      throw new RetryConfigurationError(
+        "Rolling window must be greater than zero"
+      );
+    }
+
+    if (options.cooldown !== undefined && options.cooldown < 0) {
+      throw new RetryConfigurationError("Cooldown cannot be negative");
+    }
+
+    if (
+      options.halfOpenMaxProbes !== undefined &&
+      options.halfOpenMaxProbes < 1
+    ) {
+      throw new RetryConfigurationError(
+        "Half-open probe limit must be at least 1"
+      );
+    }
+  }
+
+  /**
+   * Current state of the circuit. An open circuit whose cooldown has
+   * passed reports itself as half-open.
+   */
+  public get state(): CircuitState {
+    if (
+      this.currentState === "open" &&
+      this.timer.now() - this.openedAt >= this.cooldown
+    ) {
+      this.transitionTo("half-open");
+    }
+
+    return this.currentState;
+  }
+
+  /**
+   * Runs the function through the circuit
+   * @throws CircuitOpenError if the circuit doesn't permit the call
+   */
+  public async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const permission = this.acquirePermission();
+
+    try {
+      const result = await fn();
+      this.recordSuccess(permission);
+      return result;
+    } catch (error) {
+      this.recordFailure(permission, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reserves a call through the circuit. Every permitted call must be
+   * followed by recordSuccess, recordFailure or releasePermission with
+   * the returned permission.
+   * @throws CircuitOpenError if the circuit is open or all probes are taken
+   */
+  public acquirePermission(): CircuitPermission {
+    const state = this.state;
+
+    if (state === "closed") {
+      return { probe: false, generation: this.generation };
+    }
+
+    if (state === "half-open" && this.probesInFlight < this.halfOpenMaxProbes) {
+      this.probesInFlight += 1;
+      return { probe: true, generation: this.generation };
+    }
+
+    throw new CircuitOpenError(`Circuit "${this.name}" is ${state}`);
+  }
+
+  /**
+   * Records a successful call. Calls permitted before the circuit last
+   * changed state are ignored.
+   */
+  public recordSuccess(permission: CircuitPermission): void {
+    if (this.isStale(permission)) {
+      return;
+    }
+
+    if (permission.probe) {
+      this.releaseProbe();
+      this.probeSuccesses += 1;
+
+      if (this.probeSuccesses >= this.halfOpenMaxProbes) {
+        this.transitionTo("closed");
+      }
+
+      return;
+    }
+
+    this.consecutiveFailures = 0;
+    this.recordOutcome(false);
+  }
+
+  /**
+   * Records a failed call. Errors rejected by isFailure only release
+   * the permission, and calls permitted before the circuit last changed
+   * state are ignored.
+   */
+  public recordFailure(permission: CircuitPermission, error: unknown): void {
+    if (this.isFailure && !this.isFailure(error)) {
+      this.releasePermission(permission);
+      return;
+    }
+
+    if (this.isStale(permission)) {
+      return;
+    }
+
+    if (permission.probe) {
+      this.releaseProbe();
+      this.transitionTo("open");
+      return;
+    }
+
+    this.consecutiveFailures += 1;
+    this.recordOutcome(true);
+
+    if (this.isThresholdReached()) {
+      this.transitionTo("open");
+    }
+  }
+
+  /**
+   * Gives back a permission without recording an outcome, for example
+   * when the call was cancelled
+   */
+  public releasePermission(permission: CircuitPermission): void {
+    if (permission.probe && !this.isStale(permission)) {
+      this.releaseProbe();
+    }
+  }
+
+  /**
+   * Closes the circuit and forgets all recorded calls
+   */
+  public reset(): void {
+    this.transitionTo("closed");
+  }
+
+  /**
+   * Whether the permission was granted before the circuit last changed
+   * state, e.g. a call let through while closed that finishes after the
+   * circuit opened. Its outcome says nothing about the current state.
+   */
+  private isStale(permission: CircuitPermission): boolean {
+    return permission.generation !== this.generation;
+  }
+
+  private releaseProbe(): void {
+    this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+  }
+
+  private recordOutcome(failed: boolean): void {
+    const now = this.timer.now();
+
+    this.outcomes = this.outcomes.filter(
+      (outcome) => now - outcome.time < this.rollingWindow
+    );
+    this.outcomes.push({ time: now, failed });
+  }
+
+  private isThresholdReached(): boolean {
+    if (
+      this.consecutiveFailureThreshold !== undefined &&
+      this.consecutiveFailures >= this.consecutiveFailureThreshold
+    ) {
+      return true;
+    }
+
+    if (
+      this.failureRateThreshold === undefined ||
+      this.outcomes.length < this.minimumCalls
+    ) {
+      return false;
+    }
+
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+
+    return failures / this.outcomes.length >= this.failureRateThreshold;
+  }
+
+  private transitionTo(nextState: CircuitState): void {
+    const previousState = this.currentState;
+
+    this.currentState = nextState;
+    this.generation += 1;
+    this.probesInFlight = 0;
+    this.probeSuccesses = 0;
+
+    if (nextState === "open") {
+      this.openedAt = this.timer.now();
+    }
+
+    if (nextState === "closed") {
+      this.consecutiveFailures = 0;
+      this.outcomes = [];
+    }
+
+    if (previousState === nextState) {
+      return;
+    }
+
+    const message = `Circuit "${this.name}" transitioned from ${previousState} to ${nextState}`;
+
+    if (nextState === "open") {
+      this.logger.warn(message);
+    } else {
+      this.logger.info(message);
+    }
+  }
+}
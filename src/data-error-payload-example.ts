@@ -88,16 +88,11 @@ const fetchWalletWithRetry = async (
         retries: 3,
         delay: 1000,
         exponentialBackoff: true,
-        retryOnResult: (result) => {
-          if (
-            DataErrorPayloadUtil.isErr(result) &&
-            result.error.message === "Wallet not found"
-          ) {
-            return true;
-          }
-
-          return false;
-        },
+        // Error payloads are retried like thrown errors, and the last one is
+        // returned when retries are exhausted
+        payloadAware: true,
+        retryOnError: (error) =>
+          error instanceof NetworkError || error.message === "Wallet not found",
         onComplete: (report) => {
           logger.info(
             `[REPORT] Operation completed after ${report.attempts} attempts`
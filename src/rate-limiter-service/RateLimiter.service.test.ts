@@ -0,0 +1,193 @@
+import { LogHandler } from "../logger-service/Logger.service";
+import {
+  RateLimitExceededError,
+  RetryAbortedError,
+  RetryConfigurationError,
+} from "../retry-service/Retry.service";
+import { RateLimiter } from "./RateLimiter.service";
+import type { RateLimiterOptions } from "./RateLimiter.service";
+
+describe("RateLimiter", () => {
+  let mockLogger: LogHandler;
+  let time: number;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+
+  const createLimiter = (options: RateLimiterOptions) =>
+    new RateLimiter(options, mockLogger, mockTimer);
+
+  const reserve = (limiter: RateLimiter, times: number): Array<number | null> =>
+    Array.from({ length: times }, () => limiter.tryReserve());
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      error: vi.fn(),
+      trace: vi.fn(),
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    };
+    time = 0;
+    mockTimer = {
+      delay: vi.fn().mockResolvedValue(undefined),
+      now: vi.fn(() => time),
+    };
+  });
+
+  describe("token bucket", () => {
+    it("should allow a burst of up to limit permits", () => {
+      // Given
+      const limiter = createLimiter({ limit: 3, interval: 1000 });
+
+      // When
+      const waits = reserve(limiter, 3);
+
+      // Then
+      expect(waits).toEqual([0, 0, 0]);
+    });
+
+    it("should space out reservations beyond the burst", () => {
+      // Given
+      const limiter = createLimiter({ limit: 2, interval: 1000 });
+      reserve(limiter, 2);
+
+      // When
+      const waits = reserve(limiter, 2);
+
+      // Then
+      expect(waits).toEqual([500, 1000]);
+    });
+
+    it("should refill permits over time", () => {
+      // Given
+      const limiter = createLimiter({ limit: 2, interval: 1000 });
+      reserve(limiter, 2);
+
+      // When
+      time = 500;
+      const wait = limiter.tryReserve();
+
+      // Then
+      expect(wait).toBe(0);
+    });
+  });
+
+  describe("sliding window", () => {
+    it("should not grant more than limit permits within one interval", () => {
+      // Given
+      const limiter = createLimiter({
+        limit: 2,
+        interval: 1000,
+        algorithm: "sliding-window",
+      });
+      time = 100;
+      limiter.tryReserve();
+      time = 400;
+      limiter.tryReserve();
+
+      // When
+      time = 600;
+      const wait = limiter.tryReserve();
+
+      // Then
+      expect(wait).toBe(500);
+    });
+
+    it("should grant permits again once earlier ones leave the window", () => {
+      // Given
+      const limiter = createLimiter({
+        limit: 1,
+        interval: 1000,
+        algorithm: "sliding-window",
+      });
+      limiter.tryReserve();
+
+      // When
+      time = 1000;
+      const wait = limiter.tryReserve();
+
+      // Then
+      expect(wait).toBe(0);
+    });
+  });
+
+  it("should not reserve a permit when the wait exceeds the maximum wait", () => {
+    // Given
+    const limiter = createLimiter({ limit: 1, interval: 1000 });
+    limiter.tryReserve();
+
+    // When
+    const rejected = limiter.tryReserve(200);
+    const accepted = limiter.tryReserve(1000);
+
+    // Then
+    expect(rejected).toBeNull();
+    expect(accepted).toBe(1000);
+  });
+
+  describe("acquire", () => {
+    it("should wait for the reserved permit", async () => {
+      // Given
+      const limiter = createLimiter({ limit: 1, interval: 1000 });
+      await limiter.acquire();
+
+      // When
+      await limiter.acquire();
+
+      // Then
+      expect(mockTimer.delay).toHaveBeenCalledTimes(1);
+      expect(mockTimer.delay).toHaveBeenCalledWith(1000);
+    });
+
+    it("should throw a RateLimitExceededError when the wait is too long", async () => {
+      // Given
+      const limiter = createLimiter({ name: "vendor", limit: 1 });
+      await limiter.acquire();
+
+      // When/Then
+      await expect(limiter.acquire(undefined, 100)).rejects.toThrow(
+        new RateLimitExceededError(
+          'Rate limiter "vendor" has no permit within 100ms'
+        )
+      );
+    });
+
+    it("should throw a RetryAbortedError when aborted while waiting", async () => {
+      // Given
+      const controller = new AbortController();
+      const limiter = createLimiter({ limit: 1 });
+      await limiter.acquire();
+      mockTimer.delay.mockImplementation(async () => controller.abort());
+
+      // When/Then
+      await expect(limiter.acquire(controller.signal)).rejects.toThrow(
+        RetryAbortedError
+      );
+    });
+  });
+
+  it("should run the function after waiting for a permit", async () => {
+    // Given
+    const limiter = createLimiter({ limit: 1 });
+    const fn = vi.fn(async () => "success");
+
+    // When
+    const first = await limiter.execute(fn);
+    const second = await limiter.execute(fn);
+
+    // Then
+    expect([first, second]).toEqual(["success", "success"]);
+    expect(mockTimer.delay).toHaveBeenCalledWith(1000);
+  });
+
+  it.each([
+    { name: "zero limit", options: { limit: 0 } },
+    { name: "zero interval", options: { limit: 1, interval: 0 } },
+  ])("should throw RetryConfigurationError for $name", ({ options }) => {
+    // When/Then
+    expect(() => createLimiter(options)).toThrow(RetryConfigurationError);
+  });
+});
@@ -0,0 +1,198 @@
+import { logger } from "../logger-service/Logger.service";
+import type { LogHandler } from "../logger-service/Logger.service";
+import {
+  DefaultTimer,
+  RateLimitExceededError,
+  RetryAbortedError,
+  RetryConfigurationError,
+} from "../retry-service/Retry.service";
+import type { Timer } from "../retry-service/Retry.service";
+
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+export interface RateLimiterOptions {
+  /**
+   * Name used in log messages and errors.
+   * @default "default"
+   */
+  name?: string;
+  /**
+   * Number of permits per interval.
+   */
+  limit: number;
+  /**
+   * Length of the interval in milliseconds.
+   * @default 1000
+   */
+  interval?: number;
+  /**
+   * How permits are handed out. A token bucket refills continuously and
+   * allows bursts of up to limit permits. A sliding window never grants
+   * more than limit permits within any interval.
+   * @default "token-bucket"
+   */
+  algorithm?: RateLimitAlgorithm;
+}
+
+/**
+ * Client-side rate limiter for calls to a quota-enforcing dependency.
+ *
+ * Permits are reserved in order: a caller that cannot get a permit right
+ * away is told how long to wait for the next free one, and that permit is
+ * kept for it. This keeps the limiter fair and lets callers decide up front
+ * whether waiting is worth it.
+ *
+ * Can be used standalone through execute(), or shared between retry calls
+ * through the rateLimiter option of RetryService.retry, in which case every
+ * attempt, including retries, needs a permit.
+ *
+ * @example
+ * const limiter = new RateLimiter({ name: "vendor", limit: 10, interval: 1000 });
+ * await retryService.retry(callVendor, { retries: 3, rateLimiter: limiter });
+ */
+export class RateLimiter {
+  private readonly logger: LogHandler;
+  private readonly timer: Timer;
+  private readonly name: string;
+  private readonly limit: number;
+  private readonly interval: number;
+  private readonly algorithm: RateLimitAlgorithm;
+
+  private tokens: number;
+  private refilledAt: number | null = null;
+  private permitTimes: number[] = [];
+
+  constructor(
+    options: RateLimiterOptions,
+    loggerInstance?: LogHandler,
+    timer: Timer = DefaultTimer
+  ) {
+    RateLimiter.validateOptions(options);
+
+    this.logger = loggerInstance ?? logger;
+    this.timer = timer;
+    this.name = options.name ?? "default";
+    this.limit = options.limit;
+    this.interval = options.interval ?? 1000;
+    this.algorithm = options.algorithm ?? "token-bucket";
+    this.tokens = this.limit;
+  }
+
+  private static validateOptions(options: RateLimiterOptions): void {
+    if (!(options.limit >= 1)) {
+      throw new RetryConfigurationError("Rate limit must be at least 1");
+    }
+
+    if (options.interval !== undefined && options.interval <= 0) {
+      throw new RetryConfigurationError(
+        "Rate limit interval must be greater than zero"
+      );
+    }
+  }
+
+  /**
+   * Reserves the next free permit if it can be used within maxWait
+   * @param maxWait Longest acceptable wait in milliseconds
+   * @returns Milliseconds to wait before using the permit, or null when
+   * the wait would be longer than maxWait and nothing was reserved
+   */
+  public tryReserve(maxWait = Infinity): number | null {
+    const now = this.timer.now();
+    const wait =
+      this.algorithm === "token-bucket"
+        ? this.tokenBucketWait(now)
+        : this.slidingWindowWait(now);
+
+    if (wait > maxWait) {
+      this.logger.debug(
+        `Rate limiter "${this.name}" has no permit within ${maxWait}ms`
+      );
+
+      return null;
+    }
+
+    if (this.algorithm === "token-bucket") {
+      this.tokens -= 1;
+    } else {
+      this.permitTimes.push(now + wait);
+    }
+
+    return wait;
+  }
+
+  /**
+   * Waits until a permit may be used
+   * @param signal Stops the wait when aborted. The reserved permit is not
+   * given back, as the caller may already have been counted by the dependency.
+   * @param maxWait Longest acceptable wait in milliseconds
+   * @throws RateLimitExceededError if the wait would be longer than maxWait
+   * @throws RetryAbortedError if the signal is aborted
+   */
+  public async acquire(signal?: AbortSignal, maxWait?: number): Promise<void> {
+    const wait = this.tryReserve(maxWait);
+
+    if (wait === null) {
+      throw new RateLimitExceededError(
+        `Rate limiter "${this.name}" has no permit within ${maxWait}ms`
+      );
+    }
+
+    if (wait > 0) {
+      await (signal ? this.timer.delay(wait, signal) : this.timer.delay(wait));
+    }
+
+    if (signal?.aborted) {
+      throw new RetryAbortedError(
+        "Rate limiter wait aborted",
+        signal.reason instanceof Error ? signal.reason : undefined
+      );
+    }
+  }
+
+  /**
+   * Runs the function once a permit may be used
+   * @param maxWait Longest acceptable wait in milliseconds
+   * @throws RateLimitExceededError if the wait would be longer than maxWait
+   */
+  public async execute<T>(fn: () => Promise<T>, maxWait?: number): Promise<T> {
+    await this.acquire(undefined, maxWait);
+
+    return fn();
+  }
+
+  /**
+   * Refills the bucket and returns the wait for the next token, which may
+   * already be reserved by earlier callers when tokens are negative
+   */
+  private tokenBucketWait(now: number): number {
+    const refillPerMs = this.limit / this.interval;
+
+    if (this.refilledAt !== null) {
+      this.tokens = Math.min(
+        this.limit,
+        this.tokens + (now - this.refilledAt) * refillPerMs
+      );
+    }
+
+    this.refilledAt = now;
+
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / refillPerMs);
+  }
+
+  /**
+   * Returns the wait until fewer than limit permits fall within one interval
+   */
+  private slidingWindowWait(now: number): number {
+    this.permitTimes = this.permitTimes.filter(
+      (time) => time > now - this.interval
+    );
+
+    if (this.permitTimes.length < this.limit) {
+      return 0;
+    }
+
+    const blocking = this.permitTimes[this.permitTimes.length - this.limit];
+
+    return Math.max(0, blocking + this.interval - now);
+  }
+}
@@ -0,0 +1,276 @@
+import { Bulkhead } from "../bulkhead-service/Bulkhead.service";
+import { CircuitBreaker } from "../circuit-breaker-service/CircuitBreaker.service";
+import { LogHandler } from "../logger-service/Logger.service";
+import { RateLimiter } from "../rate-limiter-service/RateLimiter.service";
+import {
+  AttemptTimeoutError,
+  BulkheadFullError,
+  CircuitOpenError,
+  RateLimitExceededError,
+  RetryAttemptsExceededError,
+  RetryConfigurationError,
+} from "../retry-service/Retry.service";
+import { ResiliencePipelineBuilder } from "./ResiliencePipeline.service";
+
+describe("ResiliencePipeline", () => {
+  let mockLogger: LogHandler;
+  let time: number;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+
+  const createBuilder = <T = string>() =>
+    new ResiliencePipelineBuilder<T>(mockLogger, mockTimer);
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      error: vi.fn(),
+      trace: vi.fn(),
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    };
+    time = 0;
+    mockTimer = {
+      delay: vi.fn().mockResolvedValue(undefined),
+      now: vi.fn(() => time),
+    };
+  });
+
+  it("should run the function when the pipeline has no stages", async () => {
+    // Given
+    const pipeline = createBuilder().build();
+    const onComplete = vi.fn();
+
+    // When
+    const result = await pipeline.execute(async () => "success", {
+      onComplete,
+    });
+
+    // Then
+    expect(result).toBe("success");
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 1,
+        retryingOperationSucceeded: true,
+        stageEvents: [],
+      })
+    );
+  });
+
+  it("should keep the builder immutable", () => {
+    // Given
+    const builder = createBuilder();
+
+    // When
+    const withRetry = builder.addRetry({ retries: 1 });
+
+    // Then
+    expect(withRetry).not.toBe(builder);
+  });
+
+  it("should apply stages from the outside in", async () => {
+    // Given
+    const breaker = new CircuitBreaker({}, mockLogger, mockTimer);
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 }, mockLogger, mockTimer);
+    const pipeline = createBuilder()
+      .addRetry({ retries: 2 })
+      .addCircuitBreaker(breaker)
+      .addBulkhead(bulkhead)
+      .build();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Transient failure"))
+      .mockResolvedValueOnce("success");
+    const onComplete = vi.fn();
+
+    // When
+    const result = await pipeline.execute(fn, { onComplete });
+
+    // Then
+    expect(result).toBe("success");
+    expect(bulkhead.active).toBe(0);
+    const report = onComplete.mock.calls[0][0];
+    expect(report.attempts).toBe(2);
+    expect(report.recoveredBy).toBe("retry");
+    expect(
+      report.stageEvents.map(
+        (event: { stage: string; outcome: string }) =>
+          `${event.stage}:${event.outcome}`
+      )
+    ).toEqual([
+      "bulkhead:failure",
+      "circuit-breaker:failure",
+      "bulkhead:success",
+      "circuit-breaker:success",
+      "retry:recovered",
+    ]);
+  });
+
+  it("should report the stage that rejected the call", async () => {
+    // Given
+    const breaker = new CircuitBreaker(
+      { consecutiveFailureThreshold: 1 },
+      mockLogger,
+      mockTimer
+    );
+    breaker.recordFailure(
+      breaker.acquirePermission(),
+      new Error("Downstream failure")
+    );
+    const pipeline = createBuilder().addCircuitBreaker(breaker).build();
+    const fn = vi.fn(async () => "success");
+    const onComplete = vi.fn();
+
+    // When/Then
+    await expect(pipeline.execute(fn, { onComplete })).rejects.toThrow(
+      CircuitOpenError
+    );
+    expect(fn).not.toHaveBeenCalled();
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 0,
+        rejectedBy: "circuit-breaker",
+        retryingOperationSucceeded: false,
+      })
+    );
+  });
+
+  it("should trace a rejection through the retry error's cause", async () => {
+    // Given
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 }, mockLogger, mockTimer);
+    await bulkhead.acquire();
+    const pipeline = createBuilder()
+      .addRetry({ retries: 1 })
+      .addBulkhead(bulkhead)
+      .build();
+    const onComplete = vi.fn();
+
+    // When/Then
+    await expect(
+      pipeline.execute(async () => "success", { onComplete })
+    ).rejects.toThrow(RetryAttemptsExceededError);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 2,
+        errors: [expect.any(BulkheadFullError), expect.any(BulkheadFullError)],
+        rejectedBy: "bulkhead",
+      })
+    );
+  });
+
+  it("should recover with the fallback and mark it in the report", async () => {
+    // Given
+    const fallback = vi.fn(async () => "cached");
+    const pipeline = createBuilder()
+      .addFallback(fallback)
+      .addRetry({ retries: 1 })
+      .build();
+    const onComplete = vi.fn();
+
+    // When
+    const result = await pipeline.execute(
+      vi.fn().mockRejectedValue(new Error("Service unavailable")),
+      { onComplete }
+    );
+
+    // Then
+    expect(result).toBe("cached");
+    expect(fallback).toHaveBeenCalledWith(
+      expect.any(RetryAttemptsExceededError),
+      expect.objectContaining({ attempts: 2 })
+    );
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fallbackUsed: true,
+        recoveredBy: "fallback",
+        retryingOperationSucceeded: false,
+      })
+    );
+  });
+
+  it("should rethrow the error when the fallback throws", async () => {
+    // Given
+    const error = new Error("Service unavailable");
+    const pipeline = createBuilder()
+      .addFallback(() => {
+        throw new Error("Cache miss");
+      })
+      .build();
+
+    // When/Then
+    await expect(
+      pipeline.execute(vi.fn().mockRejectedValue(error))
+    ).rejects.toBe(error);
+    expect(mockLogger.warn).toHaveBeenCalledWith("Fallback failed: Cache miss");
+  });
+
+  it("should reject slow calls and abort their signal", async () => {
+    // Given
+    let signal: AbortSignal | undefined;
+    const pipeline = createBuilder().addTimeout(500).build();
+    const onComplete = vi.fn();
+
+    // When
+    const pending = pipeline.execute(
+      (context) => {
+        signal = context.signal;
+        return new Promise<string>(() => {});
+      },
+      { onComplete }
+    );
+
+    // Then
+    await expect(pending).rejects.toThrow(AttemptTimeoutError);
+    expect(mockTimer.delay).toHaveBeenCalledWith(500, expect.any(AbortSignal));
+    expect(signal?.aborted).toBe(true);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ rejectedBy: "timeout" })
+    );
+  });
+
+  it("should reject calls the rate limiter cannot admit in time", async () => {
+    // Given
+    const rateLimiter = new RateLimiter(
+      { limit: 1, interval: 1000 },
+      mockLogger,
+      mockTimer
+    );
+    const pipeline = createBuilder().addRateLimiter(rateLimiter, 100).build();
+    await pipeline.execute(async () => "first");
+    const onComplete = vi.fn();
+
+    // When/Then
+    await expect(
+      pipeline.execute(async () => "second", { onComplete })
+    ).rejects.toThrow(RateLimitExceededError);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ rejectedBy: "rate-limiter" })
+    );
+  });
+
+  it("should pass the cancellation signal to the function", async () => {
+    // Given
+    const controller = new AbortController();
+    const pipeline = createBuilder().addRetry({ retries: 3 }).build();
+    const fn = vi.fn(async () => {
+      controller.abort();
+      throw new Error("Request cancelled");
+    });
+
+    // When/Then
+    await expect(
+      pipeline.execute(fn, { signal: controller.signal })
+    ).rejects.toThrow();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw RetryConfigurationError for a zero timeout", () => {
+    // When/Then
+    expect(() => createBuilder().addTimeout(0)).toThrow(
+      RetryConfigurationError
+    );
+  });
+});
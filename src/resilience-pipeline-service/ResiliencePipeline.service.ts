@@ -0,0 +1,525 @@
+import { logger } from "../logger-service/Logger.service";
+import type { LogHandler } from "../logger-service/Logger.service";
+import {
+  AttemptTimeoutError,
+  BulkheadFullError,
+  CircuitOpenError,
+  DefaultTimer,
+  RateLimitExceededError,
+  RetryConfigurationError,
+  RetryError,
+  RetryService,
+} from "../retry-service/Retry.service";
+import type {
+  RetryOptions,
+  RetryReport,
+  Timer,
+} from "../retry-service/Retry.service";
+import type { Bulkhead } from "../bulkhead-service/Bulkhead.service";
+import type {
+  CircuitBreaker,
+  CircuitPermission,
+} from "../circuit-breaker-service/CircuitBreaker.service";
+import type { RateLimiter } from "../rate-limiter-service/RateLimiter.service";
+
+export type PipelineStageName =
+  | "fallback"
+  | "retry"
+  | "circuit-breaker"
+  | "timeout"
+  | "bulkhead"
+  | "rate-limiter";
+
+/**
+ * How a stage handled one call passing through it.
+ * A stage rejects a call it refuses to pass on, and recovers a call whose
+ * inner stages failed at first.
+ */
+export type PipelineStageOutcome =
+  "success" | "failure" | "rejected" | "recovered";
+
+export interface PipelineStageEvent {
+  stage: PipelineStageName;
+  outcome: PipelineStageOutcome;
+  /** Milliseconds between the start of the execution and the event */
+  offset: number;
+  /** Error that failed, was rejected with or was recovered from */
+  error?: unknown;
+}
+
+/**
+ * Report of one pipeline execution. The RetryReport fields come from the
+ * retry stage when there is one.
+ */
+export interface PipelineReport extends RetryReport {
+  /** What every stage did, in the order the stages finished */
+  stageEvents: PipelineStageEvent[];
+  /** Stage whose rejection made the execution fail */
+  rejectedBy?: PipelineStageName;
+  /** Outermost stage that recovered the execution */
+  recoveredBy?: PipelineStageName;
+}
+
+/**
+ * Context handed to the executed function
+ */
+export interface PipelineContext {
+  /**
+   * Aborted when a stage gives up on the call, e.g. on a timeout, or when
+   * the execution is cancelled
+   */
+  signal: AbortSignal;
+}
+
+export interface PipelineExecuteOptions {
+  /**
+   * Signal to cancel the execution
+   */
+  signal?: AbortSignal;
+  /**
+   * Callback function executed with the report when the execution completes
+   */
+  onComplete?: (report: PipelineReport) => void;
+}
+
+type PipelineCall<T> = (context: PipelineContext) => Promise<T>;
+
+/**
+ * A stage wraps the call to the stages inside it.
+ * This interface is an implementation detail and not part of the public API.
+ */
+interface PipelineStage<T> {
+  name: PipelineStageName;
+  wrap: (next: PipelineCall<T>, recorder: PipelineRecorder) => PipelineCall<T>;
+}
+
+/**
+ * Collects what happens during one pipeline execution.
+ * This class is an implementation detail and not part of the public API.
+ */
+class PipelineRecorder {
+  private readonly timer: Timer;
+  private readonly startTime: number;
+  private readonly events: PipelineStageEvent[] = [];
+  private readonly errors: Error[] = [];
+  private attempts = 0;
+  private retryReport?: RetryReport;
+
+  constructor(timer: Timer, startTime: number) {
+    this.timer = timer;
+    this.startTime = startTime;
+  }
+
+  public record(
+    stage: PipelineStageName,
+    outcome: PipelineStageOutcome,
+    error?: unknown
+  ): void {
+    this.events.push({
+      stage,
+      outcome,
+      offset: this.timer.now() - this.startTime,
+      ...(error === undefined ? {} : { error }),
+    });
+  }
+
+  public recordAttempt(): void {
+    this.attempts += 1;
+  }
+
+  public recordAttemptError(error: unknown): void {
+    this.errors.push(error as Error);
+  }
+
+  public recordRetryReport(report: RetryReport): void {
+    this.retryReport = report;
+  }
+
+  public build(succeeded: boolean, finalError?: unknown): PipelineReport {
+    const recovered = this.events.filter(
+      (event) => event.outcome === "recovered"
+    );
+    const fallbackUsed = recovered.some((event) => event.stage === "fallback");
+    const rejection = succeeded
+      ? undefined
+      : this.events.find(
+          (event) =>
+            event.outcome === "rejected" &&
+            (event.error === finalError ||
+              (finalError instanceof RetryError &&
+                event.error === finalError.cause))
+        );
+    const base: RetryReport = this.retryReport ?? {
+      startTime: this.startTime,
+      totalTime: 0,
+      attempts: this.attempts,
+      errors: [...this.errors],
+      delays: [],
+      retryingOperationSucceeded: false,
+    };
+
+    return {
+      ...base,
+      startTime: this.startTime,
+      totalTime: this.timer.now() - this.startTime,
+      retryingOperationSucceeded: succeeded && !fallbackUsed,
+      ...(fallbackUsed ? { fallbackUsed } : {}),
+      stageEvents: this.events.map((event) => ({ ...event })),
+      rejectedBy: rejection?.stage,
+      recoveredBy: recovered[recovered.length - 1]?.stage,
+    };
+  }
+}
+
+/**
+ * Immutable builder for resilience pipelines.
+ *
+ * Stages are added from the outside in: the first stage added sees the
+ * call first and its result last. A common order is
+ * fallback → retry → circuit breaker → timeout → bulkhead, so that every
+ * retry attempt goes through the circuit, gets its own timeout and takes
+ * its own bulkhead slot.
+ *
+ * @example
+ * const pipeline = new ResiliencePipelineBuilder<Wallet>(logger)
+ *   .addFallback(cachedWallet)
+ *   .addRetry({ retries: 3, delay: 200 })
+ *   .addCircuitBreaker(walletCircuit)
+ *   .addTimeout(2000)
+ *   .addBulkhead(walletBulkhead)
+ *   .build();
+ *
+ * const wallet = await pipeline.execute(({ signal }) => fetchWallet(id, signal));
+ */
+export class ResiliencePipelineBuilder<T = unknown> {
+  private readonly logger: LogHandler;
+  private readonly timer: Timer;
+  private readonly retryService: RetryService;
+  private stages: PipelineStage<T>[] = [];
+
+  constructor(loggerInstance?: LogHandler, timer: Timer = DefaultTimer) {
+    this.logger = loggerInstance ?? logger;
+    this.timer = timer;
+    this.retryService = new RetryService(this.logger, timer);
+  }
+
+  /**
+   * Adds a stage returning a substitute result when the stages inside it
+   * fail, unless the execution was cancelled. Either a static value, or a
+   * function receiving the error and the report so far.
+   */
+  public addFallback(
+    fallback: T | ((error: unknown, report: PipelineReport) => T | Promise<T>)
+  ): ResiliencePipelineBuilder<T> {
+    return this.withStage({
+      name: "fallback",
+      wrap: (next, recorder) => async (context) => {
+        try {
+          const result = await next(context);
+          recorder.record("fallback", "success");
+          return result;
+        } catch (error) {
+          if (context.signal.aborted) {
+            recorder.record("fallback", "failure", error);
+            throw error;
+          }
+
+          try {
+            const result =
+              typeof fallback === "function"
+                ? await (
+                    fallback as (
+                      error: unknown,
+                      report: PipelineReport
+                    ) => T | Promise<T>
+                  )(error, recorder.build(false, error))
+                : fallback;
+
+            recorder.record("fallback", "recovered", error);
+            return result;
+          } catch (fallbackError) {
+            this.logger.warn(
+              `Fallback failed: ${
+                fallbackError instanceof Error
+                  ? fallbackError.message
+                  : String(fallbackError)
+              }`
+            );
+            recorder.record("fallback", "failure", error);
+            throw error;
+          }
+        }
+      },
+    });
+  }
+
+  /**
+   * Adds a stage retrying the stages inside it with RetryService.
+   * Its report becomes the base of the pipeline report.
+   */
+  public addRetry<E extends Error = Error>(
+    options: Omit<RetryOptions<T, E>, "signal">
+  ): ResiliencePipelineBuilder<T> {
+    return this.withStage({
+      name: "retry",
+      wrap: (next, recorder) => async (context) => {
+        let attempts = 0;
+
+        try {
+          const result = await this.retryService.retry<T, E>(
+            ({ signal }) => next({ signal }),
+            {
+              ...options,
+              signal: context.signal,
+              onComplete: (report) => {
+                attempts = report.attempts;
+                recorder.recordRetryReport(report);
+                options.onComplete?.(report);
+              },
+            }
+          );
+
+          recorder.record("retry", attempts > 1 ? "recovered" : "success");
+          return result;
+        } catch (error) {
+          recorder.record("retry", "failure", error);
+          throw error;
+        }
+      },
+    });
+  }
+
+  /**
+   * Adds a stage passing calls through the circuit breaker.
+   * An open circuit rejects calls with a CircuitOpenError.
+   */
+  public addCircuitBreaker(
+    circuitBreaker: CircuitBreaker
+  ): ResiliencePipelineBuilder<T> {
+    return this.withStage({
+      name: "circuit-breaker",
+      wrap: (next, recorder) => async (context) => {
+        let permission: CircuitPermission;
+
+        try {
+          permission = circuitBreaker.acquirePermission();
+        } catch (error) {
+          this.logger.debug(
+            `${(error as CircuitOpenError).message}. Rejecting`
+          );
+          recorder.record("circuit-breaker", "rejected", error);
+          throw error;
+        }
+
+        try {
+          const result = await next(context);
+          circuitBreaker.recordSuccess(permission);
+          recorder.record("circuit-breaker", "success");
+          return result;
+        } catch (error) {
+          if (context.signal.aborted) {
+            circuitBreaker.releasePermission(permission);
+          } else {
+            circuitBreaker.recordFailure(permission, error);
+          }
+
+          recorder.record("circuit-breaker", "failure", error);
+          throw error;
+        }
+      },
+    });
+  }
+
+  /**
+   * Adds a stage rejecting calls that take longer than the timeout with an
+   * AttemptTimeoutError, aborting their signal
+   */
+  public addTimeout(timeout: number): ResiliencePipelineBuilder<T> {
+    if (!(timeout > 0)) {
+      throw new RetryConfigurationError("Timeout must be greater than zero");
+    }
+
+    return this.withStage({
+      name: "timeout",
+      wrap: (next, recorder) => (context) => {
+        const callController = new AbortController();
+        const timerController = new AbortController();
+        const onAbort = () => callController.abort(context.signal.reason);
+
+        if (context.signal.aborted) {
+          onAbort();
+        }
+
+        context.signal.addEventListener("abort", onAbort, { once: true });
+
+        const cleanup = () => {
+          timerController.abort();
+          context.signal.removeEventListener("abort", onAbort);
+        };
+
+        return new Promise<T>((resolve, reject) => {
+          this.timer.delay(timeout, timerController.signal).then(() => {
+            if (timerController.signal.aborted) {
+              return;
+            }
+
+            const error = new AttemptTimeoutError(
+              `Pipeline timeout of ${timeout}ms exceeded`
+            );
+
+            cleanup();
+            recorder.record("timeout", "rejected", error);
+            callController.abort(error);
+            reject(error);
+          });
+
+          next({ signal: callController.signal }).then(
+            (result) => {
+              if (!timerController.signal.aborted) {
+                cleanup();
+                recorder.record("timeout", "success");
+                resolve(result);
+              }
+            },
+            (error) => {
+              if (!timerController.signal.aborted) {
+                cleanup();
+                recorder.record("timeout", "failure", error);
+                reject(error);
+              }
+            }
+          );
+        });
+      },
+    });
+  }
+
+  /**
+   * Adds a stage running calls in a bulkhead slot.
+   * A full bulkhead rejects calls with a BulkheadFullError.
+   */
+  public addBulkhead(bulkhead: Bulkhead): ResiliencePipelineBuilder<T> {
+    return this.withStage({
+      name: "bulkhead",
+      wrap: (next, recorder) => async (context) => {
+        try {
+          await bulkhead.acquire(context.signal);
+        } catch (error) {
+          recorder.record(
+            "bulkhead",
+            error instanceof BulkheadFullError ? "rejected" : "failure",
+            error
+          );
+          throw error;
+        }
+
+        try {
+          const result = await next(context);
+          recorder.record("bulkhead", "success");
+          return result;
+        } catch (error) {
+          recorder.record("bulkhead", "failure", error);
+          throw error;
+        } finally {
+          bulkhead.release();
+        }
+      },
+    });
+  }
+
+  /**
+   * Adds a stage waiting for a rate limiter permit before every call.
+   * Calls that would wait longer than maxWait are rejected with a
+   * RateLimitExceededError.
+   */
+  public addRateLimiter(
+    rateLimiter: RateLimiter,
+    maxWait?: number
+  ): ResiliencePipelineBuilder<T> {
+    return this.withStage({
+      name: "rate-limiter",
+      wrap: (next, recorder) => async (context) => {
+        try {
+          await rateLimiter.acquire(context.signal, maxWait);
+        } catch (error) {
+          recorder.record(
+            "rate-limiter",
+            error instanceof RateLimitExceededError ? "rejected" : "failure",
+            error
+          );
+          throw error;
+        }
+
+        try {
+          const result = await next(context);
+          recorder.record("rate-limiter", "success");
+          return result;
+        } catch (error) {
+          recorder.record("rate-limiter", "failure", error);
+          throw error;
+        }
+      },
+    });
+  }
+
+  public build(): ResiliencePipeline<T> {
+    return new ResiliencePipeline<T>([...this.stages], this.timer);
+  }
+
+  private withStage(stage: PipelineStage<T>): ResiliencePipelineBuilder<T> {
+    const builder = new ResiliencePipelineBuilder<T>(this.logger, this.timer);
+    builder.stages = [...this.stages, stage];
+    return builder;
+  }
+}
+
+/**
+ * Executable chain of resilience stages, created by ResiliencePipelineBuilder.
+ * A pipeline holds no state of its own and can be shared; state lives in the
+ * circuit breakers, bulkheads and rate limiters passed to its stages.
+ */
+export class ResiliencePipeline<T = unknown> {
+  private readonly stages: PipelineStage<T>[];
+  private readonly timer: Timer;
+
+  constructor(stages: PipelineStage<T>[], timer: Timer = DefaultTimer) {
+    this.stages = stages;
+    this.timer = timer;
+  }
+
+  /**
+   * Runs the function through every stage of the pipeline
+   */
+  public async execute(
+    fn: (context: PipelineContext) => Promise<T>,
+    options: PipelineExecuteOptions = {}
+  ): Promise<T> {
+    const recorder = new PipelineRecorder(this.timer, this.timer.now());
+    const innermost: PipelineCall<T> = async (context) => {
+      recorder.recordAttempt();
+
+      try {
+        return await fn(context);
+      } catch (error) {
+        recorder.recordAttemptError(error);
+        throw error;
+      }
+    };
+    const run = this.stages.reduceRight<PipelineCall<T>>(
+      (next, stage) => stage.wrap(next, recorder),
+      innermost
+    );
+
+    try {
+      const result = await run({
+        signal: options.signal ?? new AbortController().signal,
+      });
+
+      options.onComplete?.(recorder.build(true));
+      return result;
+    } catch (error) {
+      options.onComplete?.(recorder.build(false, error));
+      throw error;
+    }
+  }
+}
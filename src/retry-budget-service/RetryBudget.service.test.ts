@@ -0,0 +1,112 @@
+import { RetryConfigurationError } from "../retry-service/Retry.service";
+import { RetryBudget } from "./RetryBudget.service";
+
+describe("RetryBudget", () => {
+  let time: number;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    time = 0;
+    mockTimer = {
+      delay: vi.fn().mockResolvedValue(undefined),
+      now: vi.fn(() => time),
+    };
+  });
+
+  const drain = (budget: RetryBudget): number => {
+    let withdrawn = 0;
+    while (budget.tryWithdraw()) {
+      withdrawn += 1;
+    }
+    return withdrawn;
+  };
+
+  it("should start with the minimum retries per second as reserve", () => {
+    // Given
+    const budget = new RetryBudget(
+      { minRetriesPerSecond: 2, ttl: 5000 },
+      mockTimer
+    );
+
+    // When/Then
+    expect(budget.balance).toBe(10);
+    expect(drain(budget)).toBe(10);
+  });
+
+  it("should deny retries once the budget is exhausted", () => {
+    // Given
+    const budget = new RetryBudget(
+      { minRetriesPerSecond: 1, ttl: 1000 },
+      mockTimer
+    );
+
+    // When
+    const first = budget.tryWithdraw();
+    const second = budget.tryWithdraw();
+
+    // Then
+    expect(first).toBe(true);
+    expect(second).toBe(false);
+  });
+
+  it("should allow one retry per deposited token", () => {
+    // Given
+    const budget = new RetryBudget(
+      { minRetriesPerSecond: 0, depositRatio: 0.25 },
+      mockTimer
+    );
+
+    // When
+    for (let i = 0; i < 8; i += 1) {
+      budget.deposit();
+    }
+
+    // Then
+    expect(drain(budget)).toBe(2);
+  });
+
+  it("should forget deposits and withdrawals after the ttl", () => {
+    // Given
+    const budget = new RetryBudget(
+      { minRetriesPerSecond: 1, depositRatio: 1, ttl: 2000 },
+      mockTimer
+    );
+    budget.deposit();
+    drain(budget);
+
+    // When
+    time = 2000;
+
+    // Then
+    expect(budget.balance).toBe(2);
+  });
+
+  it("should keep recent activity within the ttl", () => {
+    // Given
+    const budget = new RetryBudget(
+      { minRetriesPerSecond: 0, depositRatio: 1, ttl: 2000 },
+      mockTimer
+    );
+    budget.deposit();
+
+    // When
+    time = 1999;
+
+    // Then
+    expect(budget.balance).toBe(1);
+  });
+
+  it.each([
+    { name: "negative deposit ratio", options: { depositRatio: -0.1 } },
+    { name: "negative minimum retries", options: { minRetriesPerSecond: -1 } },
+    { name: "ttl below one second", options: { ttl: 500 } },
+  ])("should throw RetryConfigurationError for $name", ({ options }) => {
+    // When/Then
+    expect(() => new RetryBudget(options, mockTimer)).toThrow(
+      RetryConfigurationError
+    );
+  });
+});
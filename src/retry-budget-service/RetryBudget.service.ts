@@ -0,0 +1,149 @@
+import {
+  DefaultTimer,
+  RetryConfigurationError,
+} from "../retry-service/Retry.service";
+import type { Timer } from "../retry-service/Retry.service";
+
+export interface RetryBudgetOptions {
+  /**
+   * Fraction of a token deposited by every successful call.
+   * A ratio of 0.2 allows one retry for every five successful calls.
+   * @default 0.2
+   */
+  depositRatio?: number;
+  /**
+   * Retries allowed per second regardless of deposits, so that a
+   * low-traffic caller can still retry.
+   * @default 10
+   */
+  minRetriesPerSecond?: number;
+  /**
+   * Time in milliseconds deposits and withdrawals are remembered for.
+   * Must be at least one second.
+   * @default 10000
+   */
+  ttl?: number;
+}
+
+interface BudgetBucket {
+  second: number;
+  deposits: number;
+  withdrawals: number;
+}
+
+/**
+ * Token bucket limiting retries to a fraction of successful calls.
+ *
+ * Every successful call deposits a fraction of a token and every retry
+ * withdraws a whole token. A reserve of minRetriesPerSecond tokens per
+ * second is always available. Deposits and withdrawals expire after the ttl,
+ * and are kept in one counter per second so memory stays bounded.
+ *
+ * Share one instance between all calls to the same dependency, so that
+ * retries cannot multiply load during a partial outage.
+ *
+ * @example
+ * const budget = new RetryBudget({ depositRatio: 0.1 });
+ * const service = new RetryService(logger, undefined, undefined, { retryBudget: budget });
+ */
+export class RetryBudget {
+  private readonly timer: Timer;
+  private readonly depositRatio: number;
+  private readonly minRetriesPerSecond: number;
+  private readonly ttlSeconds: number;
+  private buckets: BudgetBucket[] = [];
+
+  constructor(options: RetryBudgetOptions = {}, timer: Timer = DefaultTimer) {
+    RetryBudget.validateOptions(options);
+
+    this.timer = timer;
+    this.depositRatio = options.depositRatio ?? 0.2;
+    this.minRetriesPerSecond = options.minRetriesPerSecond ?? 10;
+    this.ttlSeconds = Math.floor((options.ttl ?? 10_000) / 1000);
+  }
+
+  private static validateOptions(options: RetryBudgetOptions): void {
+    if (options.depositRatio !== undefined && options.depositRatio < 0) {
+      throw new RetryConfigurationError("Deposit ratio cannot be negative");
+    }
+
+    if (
+      options.minRetriesPerSecond !== undefined &&
+      options.minRetriesPerSecond < 0
+    ) {
+      throw new RetryConfigurationError(
+        "Minimum retries per second cannot be negative"
+      );
+    }
+
+    if (options.ttl !== undefined && options.ttl < 1000) {
+      throw new RetryConfigurationError(
+        "Retry budget ttl must be at least 1000ms"
+      );
+    }
+  }
+
+  /**
+   * Number of retries currently available
+   */
+  public get balance(): number {
+    const buckets = this.activeBuckets();
+    const deposits = buckets.reduce((sum, bucket) => sum + bucket.deposits, 0);
+    const withdrawals = buckets.reduce(
+      (sum, bucket) => sum + bucket.withdrawals,
+      0
+    );
+
+    return (
+      this.minRetriesPerSecond * this.ttlSeconds +
+      deposits * this.depositRatio -
+      withdrawals
+    );
+  }
+
+  /**
+   * Records a successful call
+   */
+  public deposit(): void {
+    this.currentBucket().deposits += 1;
+  }
+
+  /**
+   * Takes a token for one retry
+   * @returns false when the budget is exhausted and the retry must not happen
+   */
+  public tryWithdraw(): boolean {
+    if (this.balance < 1) {
+      return false;
+    }
+
+    this.currentBucket().withdrawals += 1;
+
+    return true;
+  }
+
+  private activeBuckets(): BudgetBucket[] {
+    const currentSecond = Math.floor(this.timer.now() / 1000);
+
+    this.buckets = this.buckets.filter(
+      (bucket) => currentSecond - bucket.second < this.ttlSeconds
+    );
+
+    return this.buckets;
+  }
+
+  private currentBucket(): BudgetBucket {
+    const currentSecond = Math.floor(this.timer.now() / 1000);
+    const buckets = this.activeBuckets();
+    const latest = buckets[buckets.length - 1];
+
+    if (latest && latest.second === currentSecond) {
+      return latest;
+    }
+
+    const bucket = { second: currentSecond, deposits: 0, withdrawals: 0 };
+    buckets.push(bucket);
+
+    return bucket;
+  }
+}
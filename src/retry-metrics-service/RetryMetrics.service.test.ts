@@ -0,0 +1,354 @@
+import { RetryMetrics } from "./RetryMetrics.service";
+import {
+  RetryConfigurationError,
+  RetryService,
+} from "../retry-service/Retry.service";
+import type { RetryReport } from "../retry-service/Retry.service";
+import { RetryPolicyRegistry } from "../retry-service/Retry.registry";
+
+const report = (overrides: Partial<RetryReport> = {}): RetryReport => ({
+  startTime: 0,
+  totalTime: 0,
+  attempts: 1,
+  errors: [],
+  delays: [],
+  retryingOperationSucceeded: true,
+  ...overrides,
+});
+
+describe("RetryMetrics", () => {
+  let metrics: RetryMetrics;
+
+  beforeEach(() => {
+    metrics = new RetryMetrics();
+  });
+
+  it("should count calls by outcome", () => {
+    // When
+    metrics.record("wallets", report());
+    metrics.record("wallets", report({ retryingOperationSucceeded: false }));
+    metrics.record(
+      "wallets",
+      report({ retryingOperationSucceeded: false, timedOut: true })
+    );
+    metrics.record(
+      "wallets",
+      report({ retryingOperationSucceeded: false, aborted: true })
+    );
+
+    // Then
+    expect(metrics.snapshot().operations.wallets).toEqual(
+      expect.objectContaining({
+        calls: 4,
+        succeeded: 1,
+        failed: 1,
+        timedOut: 1,
+        aborted: 1,
+      })
+    );
+  });
+
+  it("should keep the metrics of every operation apart", () => {
+    // When
+    metrics.record("wallets", report({ attempts: 3 }));
+    metrics.record("payments", report({ attempts: 1 }));
+
+    // Then
+    const { operations } = metrics.snapshot();
+    expect(metrics.operationNames).toEqual(["wallets", "payments"]);
+    expect(operations.wallets.attempts.sum).toBe(3);
+    expect(operations.payments.attempts.sum).toBe(1);
+  });
+
+  it("should count errors by name", () => {
+    // Given
+    const timeout = new Error("Timed out");
+    timeout.name = "TimeoutError";
+
+    // When
+    metrics.record("wallets", report({ errors: [timeout, new TypeError()] }));
+    metrics.record("wallets", report({ errors: [timeout] }));
+
+    // Then
+    expect(metrics.snapshot().operations.wallets.errors).toEqual({
+      TimeoutError: 2,
+      TypeError: 1,
+    });
+  });
+
+  it("should summarize attempts, total times and delays", () => {
+    // When
+    metrics.record(
+      "wallets",
+      report({ attempts: 3, totalTime: 400, delays: [100, 200] })
+    );
+    metrics.record("wallets", report({ attempts: 1, totalTime: 20 }));
+
+    // Then
+    const { attempts, totalTime, delays } =
+      metrics.snapshot().operations.wallets;
+    expect(attempts).toEqual(
+      expect.objectContaining({ count: 2, sum: 4, min: 1, max: 3, mean: 2 })
+    );
+    expect(totalTime).toEqual(
+      expect.objectContaining({ count: 2, sum: 420, min: 20, max: 400 })
+    );
+    expect(delays).toEqual(
+      expect.objectContaining({ count: 2, sum: 300, min: 100, max: 200 })
+    );
+  });
+
+  it("should estimate percentiles from the buckets", () => {
+    // Given
+    metrics = new RetryMetrics({
+      timeBuckets: [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000],
+    });
+
+    // When
+    for (let totalTime = 1; totalTime <= 1000; totalTime++) {
+      metrics.record("wallets", report({ totalTime }));
+    }
+
+    // Then
+    const { p50, p90, p99 } = metrics.snapshot().operations.wallets.totalTime;
+    expect(p50).toBeCloseTo(500);
+    expect(p90).toBeCloseTo(900);
+    expect(p99).toBeCloseTo(990);
+  });
+
+  it("should not estimate percentiles beyond the values seen", () => {
+    // When
+    metrics.record("wallets", report({ attempts: 2 }));
+    metrics.record("wallets", report({ attempts: 2 }));
+
+    // Then
+    expect(metrics.snapshot().operations.wallets.attempts).toEqual(
+      expect.objectContaining({ p50: 2, p99: 2 })
+    );
+  });
+
+  it("should render the Prometheus text exposition format", () => {
+    // Given
+    metrics = new RetryMetrics({
+      timeBuckets: [100, 1000],
+      attemptBuckets: [1, 2],
+    });
+
+    // When
+    metrics.record(
+      "wallets",
+      report({
+        attempts: 3,
+        totalTime: 1500,
+        delays: [500, 500],
+        errors: [new TypeError(), new TypeError()],
+      })
+    );
+
+    // Then
+    expect(metrics.toPrometheus()).toBe(
+      [
+        "# HELP retry_calls_total Retried calls by outcome",
+        "# TYPE retry_calls_total counter",
+        'retry_calls_total{operation="wallets",outcome="succeeded"} 1',
+        'retry_calls_total{operation="wallets",outcome="failed"} 0',
+        'retry_calls_total{operation="wallets",outcome="timed_out"} 0',
+        'retry_calls_total{operation="wallets",outcome="aborted"} 0',
+        "# HELP retry_attempts Attempts made per call",
+        "# TYPE retry_attempts histogram",
+        'retry_attempts_bucket{operation="wallets",le="1"} 0',
+        'retry_attempts_bucket{operation="wallets",le="2"} 0',
+        'retry_attempts_bucket{operation="wallets",le="+Inf"} 1',
+        'retry_attempts_sum{operation="wallets"} 3',
+        'retry_attempts_count{operation="wallets"} 1',
+        "# HELP retry_duration_seconds Total time of calls in seconds",
+        "# TYPE retry_duration_seconds histogram",
+        'retry_duration_seconds_bucket{operation="wallets",le="0.1"} 0',
+        'retry_duration_seconds_bucket{operation="wallets",le="1"} 0',
+        'retry_duration_seconds_bucket{operation="wallets",le="+Inf"} 1',
+        'retry_duration_seconds_sum{operation="wallets"} 1.5',
+        'retry_duration_seconds_count{operation="wallets"} 1',
+        "# HELP retry_delay_seconds Delays waited before retries in seconds",
+        "# TYPE retry_delay_seconds histogram",
+        'retry_delay_seconds_bucket{operation="wallets",le="0.1"} 0',
+        'retry_delay_seconds_bucket{operation="wallets",le="1"} 2',
+        'retry_delay_seconds_bucket{operation="wallets",le="+Inf"} 2',
+        'retry_delay_seconds_sum{operation="wallets"} 1',
+        'retry_delay_seconds_count{operation="wallets"} 2',
+        "# HELP retry_errors_total Errors of failed attempts by name",
+        "# TYPE retry_errors_total counter",
+        'retry_errors_total{operation="wallets",error="TypeError"} 2',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should escape label values and use the prefix", () => {
+    // Given
+    metrics = new RetryMetrics({ prefix: "payments_retry" });
+
+    // When
+    metrics.record('say "hi"\\\n', report());
+
+    // Then
+    expect(metrics.toPrometheus()).toContain(
+      'payments_retry_calls_total{operation="say \\"hi\\"\\\\\\n",outcome="succeeded"} 1'
+    );
+  });
+
+  it("should serialize to its snapshot", () => {
+    // Given
+    metrics.record("wallets", report({ totalTime: 30 }));
+
+    // When
+    const json = JSON.parse(JSON.stringify(metrics));
+
+    // Then
+    expect(json).toEqual(metrics.snapshot());
+  });
+
+  it("should forget everything on reset", () => {
+    // Given
+    metrics.record("wallets", report());
+
+    // When
+    metrics.reset();
+
+    // Then
+    expect(metrics.snapshot()).toEqual({ operations: {} });
+  });
+
+  it.each([
+    {
+      name: "a prefix that is not a metric name",
+      options: { prefix: "retry-service" },
+      message:
+        'Metric prefix "retry-service" is not a valid Prometheus metric name',
+    },
+    {
+      name: "buckets out of order",
+      options: { timeBuckets: [100, 50] },
+      message:
+        "Histogram buckets must be finite positive numbers in increasing order",
+    },
+    {
+      name: "non-positive buckets",
+      options: { attemptBuckets: [0, 1] },
+      message:
+        "Histogram buckets must be finite positive numbers in increasing order",
+    },
+  ])("should reject $name", ({ options, message }) => {
+    // When/Then
+    expect(() => new RetryMetrics(options)).toThrow(
+      new RetryConfigurationError(message)
+    );
+  });
+
+  describe("attached to a RetryService", () => {
+    let service: RetryService;
+    let policies: RetryPolicyRegistry;
+
+    beforeEach(() => {
+      policies = new RetryPolicyRegistry();
+      service = new RetryService(
+        {
+          debug: vi.fn(),
+          error: vi.fn(),
+          trace: vi.fn(),
+          log: vi.fn(),
+          info: vi.fn(),
+          warn: vi.fn(),
+        },
+        { delay: vi.fn().mockResolvedValue(undefined), now: vi.fn(() => 0) },
+        undefined,
+        { metrics, policies }
+      );
+    });
+
+    it("should record every call under its operation name", async () => {
+      // Given
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValue("wallet");
+
+      // When
+      await service.retry(fn, {
+        retries: 2,
+        delay: 100,
+        operationName: "wallets",
+      });
+      await service.retry(fn, { retries: 2 });
+
+      // Then
+      const { operations } = metrics.snapshot();
+      expect(operations.wallets).toEqual(
+        expect.objectContaining({ calls: 1, succeeded: 1 })
+      );
+      expect(operations.wallets.attempts.sum).toBe(2);
+      expect(operations.wallets.delays.sum).toBe(100);
+      expect(operations.wallets.errors).toEqual({ TypeError: 1 });
+      expect(operations.default.calls).toBe(1);
+    });
+
+    it("should record failed calls", async () => {
+      // Given
+      const fn = vi.fn().mockRejectedValue(new Error("Down"));
+
+      // When
+      await service.retryAsPayload(fn, {
+        retries: 1,
+        operationName: "wallets",
+      });
+
+      // Then
+      expect(metrics.snapshot().operations.wallets).toEqual(
+        expect.objectContaining({ calls: 1, failed: 1 })
+      );
+    });
+
+    it("should record a stream once rather than once per item", async () => {
+      // Given
+      async function* orders() {
+        yield* [1, 2, 3];
+      }
+
+      // When
+      for await (const order of service.retryIterable(() => orders(), {
+        retries: 1,
+        operationName: "orders",
+      })) {
+        expect(order).toBeGreaterThan(0);
+      }
+
+      // Then
+      const { operations } = metrics.snapshot();
+      expect(operations.orders).toEqual(
+        expect.objectContaining({ calls: 1, succeeded: 1 })
+      );
+      expect(operations.orders.attempts.sum).toBe(4);
+    });
+
+    it("should record hedged calls", async () => {
+      // When
+      await service.hedge(vi.fn().mockResolvedValue("wallet"), {
+        hedgeDelay: 100,
+        operationName: "wallets",
+      });
+
+      // Then
+      expect(metrics.snapshot().operations.wallets.calls).toBe(1);
+    });
+
+    it("should name calls after the policy they use", async () => {
+      // Given
+      policies.register("payments", { retries: 1 });
+
+      // When
+      await service.retry(vi.fn().mockResolvedValue("paid"), "payments");
+
+      // Then
+      expect(metrics.operationNames).toEqual(["payments"]);
+    });
+  });
+});
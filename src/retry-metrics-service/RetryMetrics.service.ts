@@ -0,0 +1,423 @@
+import { RetryConfigurationError } from "../retry-service/Retry.service";
+import type { RetryReport } from "../retry-service/Retry.service";
+
+export interface RetryMetricsOptions {
+  /**
+   * Prefix of every metric name in the Prometheus exposition
+   * @default "retry"
+   */
+  prefix?: string;
+  /**
+   * Upper bounds in milliseconds of the buckets total times and delays
+   * are counted in
+   * @default [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000]
+   */
+  timeBuckets?: readonly number[];
+  /**
+   * Upper bounds of the buckets attempts per call are counted in
+   * @default [1, 2, 3, 4, 5, 7, 10]
+   */
+  attemptBuckets?: readonly number[];
+}
+
+/**
+ * Summary of the values recorded in a histogram.
+ * Percentiles are estimated from the buckets, like Prometheus'
+ * histogram_quantile, so they are only as precise as the bucket bounds.
+ */
+export interface DistributionSnapshot {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface OperationMetricsSnapshot {
+  calls: number;
+  succeeded: number;
+  failed: number;
+  timedOut: number;
+  aborted: number;
+  /** Attempts made per call */
+  attempts: DistributionSnapshot;
+  /** Total time of calls in milliseconds */
+  totalTime: DistributionSnapshot;
+  /** Delays waited before retries in milliseconds */
+  delays: DistributionSnapshot;
+  /** Errors of failed attempts, counted by error name */
+  errors: Record<string, number>;
+}
+
+export interface RetryMetricsSnapshot {
+  operations: Record<string, OperationMetricsSnapshot>;
+}
+
+type Outcome = "succeeded" | "failed" | "timedOut" | "aborted";
+
+const OUTCOME_LABELS: Record<Outcome, string> = {
+  succeeded: "succeeded",
+  failed: "failed",
+  timedOut: "timed_out",
+  aborted: "aborted",
+};
+
+interface OperationMetrics {
+  outcomes: Record<Outcome, number>;
+  attempts: Histogram;
+  totalTime: Histogram;
+  delays: Histogram;
+  errors: Map<string, number>;
+}
+
+/**
+ * Counts values in fixed buckets, so memory stays bounded however many
+ * values are recorded
+ */
+class Histogram {
+  private readonly counts: number[];
+  private count = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = -Infinity;
+
+  constructor(private readonly bounds: readonly number[]) {
+    // One more bucket for values above the last bound
+    this.counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  public observe(value: number): void {
+    const index = this.bounds.findIndex((bound) => value <= bound);
+
+    this.counts[index === -1 ? this.bounds.length : index] += 1;
+    this.count += 1;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  /**
+   * Cumulative count of values at or below every bound, ending with
+   * the count of all values
+   */
+  public buckets(): Array<{ le: number; count: number }> {
+    let cumulative = 0;
+
+    return this.counts.map((count, index) => {
+      cumulative += count;
+
+      return { le: this.bounds[index] ?? Infinity, count: cumulative };
+    });
+  }
+
+  public get total(): { count: number; sum: number } {
+    return { count: this.count, sum: this.sum };
+  }
+
+  /**
+   * Estimates the value below which the given fraction of values fall,
+   * interpolating linearly inside the bucket it lands in
+   */
+  public quantile(fraction: number): number {
+    if (this.count === 0) {
+      return 0;
+    }
+
+    const rank = fraction * this.count;
+    let below = 0;
+
+    for (let index = 0; index < this.counts.length; index++) {
+      const inBucket = this.counts[index];
+
+      if (inBucket > 0 && below + inBucket >= rank) {
+        // Bucket bounds are narrowed to the values actually seen
+        const lower = Math.max(this.min, this.bounds[index - 1] ?? this.min);
+        const upper = Math.min(this.max, this.bounds[index] ?? this.max);
+
+        return lower + (upper - lower) * ((rank - below) / inBucket);
+      }
+
+      below += inBucket;
+    }
+
+    return this.max;
+  }
+
+  public snapshot(): DistributionSnapshot {
+    if (this.count === 0) {
+      return {
+        count: 0,
+        sum: 0,
+        min: 0,
+        max: 0,
+        mean: 0,
+        p50: 0,
+        p90: 0,
+        p99: 0,
+      };
+    }
+
+    return {
+      count: this.count,
+      sum: this.sum,
+      min: this.min,
+      max: this.max,
+      mean: this.sum / this.count,
+      p50: this.quantile(0.5),
+      p90: this.quantile(0.9),
+      p99: this.quantile(0.99),
+    };
+  }
+}
+
+/**
+ * Aggregates RetryReports into counters and histograms per operation name,
+ * and renders them in the Prometheus text exposition format or as a JSON
+ * snapshot.
+ *
+ * Attach it to a RetryService, which records the report of every call
+ * under its operationName. Values are counted in fixed buckets, so memory
+ * grows with the number of operations and error names, not with calls.
+ *
+ * @example
+ * const metrics = new RetryMetrics();
+ * const service = new RetryService(logger, undefined, undefined, { metrics });
+ * await service.retry(fetchWallet, { retries: 3, operationName: "wallets" });
+ * response.end(metrics.toPrometheus());
+ */
+export class RetryMetrics {
+  private readonly prefix: string;
+  private readonly timeBuckets: readonly number[];
+  private readonly attemptBuckets: readonly number[];
+  private operations = new Map<string, OperationMetrics>();
+
+  constructor(options: RetryMetricsOptions = {}) {
+    RetryMetrics.validateOptions(options);
+
+    this.prefix = options.prefix ?? "retry";
+    this.timeBuckets = options.timeBuckets ?? [
+      10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000,
+    ];
+    this.attemptBuckets = options.attemptBuckets ?? [1, 2, 3, 4, 5, 7, 10];
+  }
+
+  private static validateOptions(options: RetryMetricsOptions): void {
+    if (
+      options.prefix !== undefined &&
+      !/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(options.prefix)
+    ) {
+      throw new RetryConfigurationError(
+        `Metric prefix "${options.prefix}" is not a valid Prometheus metric name`
+      );
+    }
+
+    for (const buckets of [options.timeBuckets, options.attemptBuckets]) {
+      if (
+        buckets !== undefined &&
+        !buckets.every(
+          (bound, index) =>
+            Number.isFinite(bound) && bound > (buckets[index - 1] ?? 0)
+        )
+      ) {
+        throw new RetryConfigurationError(
+          "Histogram buckets must be finite positive numbers in increasing order"
+        );
+      }
+    }
+  }
+
+  /**
+   * Names of the operations recorded so far
+   */
+  public get operationNames(): string[] {
+    return [...this.operations.keys()];
+  }
+
+  /**
+   * Adds the report of one call to the metrics of the operation
+   */
+  public record(operation: string, report: RetryReport): void {
+    const metrics = this.metricsOf(operation);
+
+    metrics.outcomes[RetryMetrics.outcomeOf(report)] += 1;
+    metrics.attempts.observe(report.attempts);
+    metrics.totalTime.observe(report.totalTime);
+    report.delays.forEach((delay) => metrics.delays.observe(delay));
+    report.errors.forEach((error) =>
+      metrics.errors.set(error.name, (metrics.errors.get(error.name) ?? 0) + 1)
+    );
+  }
+
+  /**
+   * Forgets everything recorded so far
+   */
+  public reset(): void {
+    this.operations = new Map();
+  }
+
+  public snapshot(): RetryMetricsSnapshot {
+    const operations: Record<string, OperationMetricsSnapshot> = {};
+
+    this.operations.forEach((metrics, operation) => {
+      const { outcomes } = metrics;
+
+      operations[operation] = {
+        calls:
+          outcomes.succeeded +
+          outcomes.failed +
+          outcomes.timedOut +
+          outcomes.aborted,
+        ...outcomes,
+        attempts: metrics.attempts.snapshot(),
+        totalTime: metrics.totalTime.snapshot(),
+        delays: metrics.delays.snapshot(),
+        errors: Object.fromEntries(metrics.errors),
+      };
+    });
+
+    return { operations };
+  }
+
+  /**
+   * Lets JSON.stringify(metrics) produce the snapshot
+   */
+  public toJSON(): RetryMetricsSnapshot {
+    return this.snapshot();
+  }
+
+  /**
+   * Renders the metrics in the Prometheus text exposition format.
+   * Times are exposed in seconds, as Prometheus recommends.
+   */
+  public toPrometheus(): string {
+    const entries = [...this.operations.entries()];
+    const name = (metric: string) => `${this.prefix}_${metric}`;
+    const lines: string[] = [];
+
+    const family = (metric: string, type: string, help: string) =>
+      lines.push(
+        `# HELP ${name(metric)} ${help}`,
+        `# TYPE ${name(metric)} ${type}`
+      );
+
+    const histogram = (
+      metric: string,
+      help: string,
+      select: (metrics: OperationMetrics) => Histogram,
+      scale: number
+    ) => {
+      family(metric, "histogram", help);
+
+      entries.forEach(([operation, metrics]) => {
+        const values = select(metrics);
+        const labels = RetryMetrics.labels({ operation });
+
+        values.buckets().forEach(({ le, count }) => {
+          const bound = le === Infinity ? "+Inf" : String(le / scale);
+
+          lines.push(
+            `${name(`${metric}_bucket`)}${RetryMetrics.labels({
+              operation,
+              le: bound,
+            })} ${count}`
+          );
+        });
+        lines.push(
+          `${name(`${metric}_sum`)}${labels} ${values.total.sum / scale}`,
+          `${name(`${metric}_count`)}${labels} ${values.total.count}`
+        );
+      });
+    };
+
+    family("calls_total", "counter", "Retried calls by outcome");
+    entries.forEach(([operation, { outcomes }]) =>
+      (Object.keys(OUTCOME_LABELS) as Outcome[]).forEach((outcome) =>
+        lines.push(
+          `${name("calls_total")}${RetryMetrics.labels({
+            operation,
+            outcome: OUTCOME_LABELS[outcome],
+          })} ${outcomes[outcome]}`
+        )
+      )
+    );
+
+    histogram(
+      "attempts",
+      "Attempts made per call",
+      (metrics) => metrics.attempts,
+      1
+    );
+    histogram(
+      "duration_seconds",
+      "Total time of calls in seconds",
+      (metrics) => metrics.totalTime,
+      1000
+    );
+    histogram(
+      "delay_seconds",
+      "Delays waited before retries in seconds",
+      (metrics) => metrics.delays,
+      1000
+    );
+
+    family("errors_total", "counter", "Errors of failed attempts by name");
+    entries.forEach(([operation, { errors }]) =>
+      errors.forEach((count, error) =>
+        lines.push(
+          `${name("errors_total")}${RetryMetrics.labels({
+            operation,
+            error,
+          })} ${count}`
+        )
+      )
+    );
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  private metricsOf(operation: string): OperationMetrics {
+    const existing = this.operations.get(operation);
+
+    if (existing) {
+      return existing;
+    }
+
+    const metrics: OperationMetrics = {
+      outcomes: { succeeded: 0, failed: 0, timedOut: 0, aborted: 0 },
+      attempts: new Histogram(this.attemptBuckets),
+      totalTime: new Histogram(this.timeBuckets),
+      delays: new Histogram(this.timeBuckets),
+      errors: new Map(),
+    };
+    this.operations.set(operation, metrics);
+
+    return metrics;
+  }
+
+  private static outcomeOf(report: RetryReport): Outcome {
+    if (report.retryingOperationSucceeded) {
+      return "succeeded";
+    }
+
+    if (report.timedOut) {
+      return "timedOut";
+    }
+
+    return report.aborted ? "aborted" : "failed";
+  }
+
+  private static labels(labels: Record<string, string>): string {
+    const pairs = Object.entries(labels).map(
+      ([label, value]) =>
+        `${label}="${value
+          .replace(/\\/g, "\\\\")
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, "\\n")}"`
+    );
+
+    return `{${pairs.join(",")}}`;
+  }
+}
@@ -0,0 +1,141 @@
+import { Backoff } from "./Backoff.strategies";
+import type { BackoffContext, BackoffStrategy } from "./Backoff.strategies";
+
+describe("Backoff", () => {
+  const fixedRandom = (value: number) => ({ next: () => value });
+
+  const delaysFor = (
+    strategy: BackoffStrategy,
+    count: number,
+    overrides: Partial<BackoffContext> = {}
+  ): number[] => {
+    const delays: number[] = [];
+    let previousDelay = 100;
+
+    for (let retryNumber = 1; retryNumber <= count; retryNumber += 1) {
+      const delay = strategy({
+        retryNumber,
+        baseDelay: 100,
+        previousDelay,
+        random: fixedRandom(0.5),
+        ...overrides,
+      });
+      delays.push(delay);
+      previousDelay = delay;
+    }
+
+    return delays;
+  };
+
+  it.each([
+    {
+      name: "constant",
+      strategy: Backoff.constant(),
+      expected: [100, 100, 100, 100],
+    },
+    {
+      name: "linear",
+      strategy: Backoff.linear(),
+      expected: [100, 200, 300, 400],
+    },
+    {
+      name: "exponential",
+      strategy: Backoff.exponential(),
+      expected: [100, 200, 400, 800],
+    },
+    {
+      name: "exponential with multiplier 3",
+      strategy: Backoff.exponential(3),
+      expected: [100, 300, 900, 2700],
+    },
+    {
+      name: "fibonacci",
+      strategy: Backoff.fibonacci(),
+      expected: [100, 100, 200, 300],
+    },
+  ])("should produce the $name sequence", ({ strategy, expected }) => {
+    // When
+    const delays = delaysFor(strategy, 4);
+
+    // Then
+    expect(delays).toEqual(expected);
+  });
+
+  describe("jittered strategies", () => {
+    it("full jitter should scale the exponential delay by the random value", () => {
+      // When
+      const delays = delaysFor(Backoff.fullJitter(), 3);
+
+      // Then
+      expect(delays).toEqual([50, 100, 200]);
+    });
+
+    it("full jitter should range from zero up to the exponential delay", () => {
+      // Given
+      const strategy = Backoff.fullJitter();
+
+      // When
+      const lowest = delaysFor(strategy, 3, { random: fixedRandom(0) });
+      const highest = delaysFor(strategy, 3, { random: fixedRandom(0.999) });
+
+      // Then
+      expect(lowest).toEqual([0, 0, 0]);
+      highest.forEach((delay, index) => {
+        expect(delay).toBeLessThan(100 * 2 ** index);
+      });
+    });
+
+    it("equal jitter should keep at least half of the exponential delay", () => {
+      // When
+      const lowest = delaysFor(Backoff.equalJitter(), 3, {
+        random: fixedRandom(0),
+      });
+      const middle = delaysFor(Backoff.equalJitter(), 3);
+
+      // Then
+      expect(lowest).toEqual([50, 100, 200]);
+      expect(middle).toEqual([75, 150, 300]);
+    });
+
+    it("decorrelated jitter should grow from the previous delay", () => {
+      // When
+      const delays = delaysFor(Backoff.decorrelatedJitter(), 3);
+
+      // Then
+      // 100 + 0.5 * (100 * 3 - 100) = 200, then 100 + 0.5 * (200 * 3 - 100) = 350, ...
+      expect(delays).toEqual([200, 350, 575]);
+    });
+
+    it("decorrelated jitter should never go below the base delay", () => {
+      // When
+      const delays = delaysFor(Backoff.decorrelatedJitter(), 3, {
+        random: fixedRandom(0),
+      });
+
+      // Then
+      expect(delays).toEqual([100, 100, 100]);
+    });
+  });
+
+  it.each([
+    { name: "exponential", strategy: Backoff.exponential(), baseDelay: 100 },
+    { name: "exponential", strategy: Backoff.exponential(), baseDelay: 0 },
+    { name: "full jitter", strategy: Backoff.fullJitter(), baseDelay: 100 },
+    { name: "fibonacci", strategy: Backoff.fibonacci(), baseDelay: 0 },
+  ])(
+    "$name should stay a number once it overflows, from a base delay of $baseDelay",
+    ({ strategy, baseDelay }) => {
+      // When
+      const delay = strategy({
+        retryNumber: 2000,
+        baseDelay,
+        previousDelay: baseDelay,
+        random: fixedRandom(0),
+      });
+
+      // Then
+      expect(Number.isNaN(delay)).toBe(false);
+      expect(delay).toBeGreaterThanOrEqual(0);
+    }
+  );
+});
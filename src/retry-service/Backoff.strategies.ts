@@ -0,0 +1,107 @@
+import type { RandomSource } from "./Retry.service";
+
+/**
+ * Information handed to a backoff strategy when the next delay is computed
+ */
+export interface BackoffContext {
+  /** Number of the retry about to be scheduled, starting at 1 */
+  retryNumber: number;
+  /** Base delay in milliseconds, taken from RetryOptions.delay */
+  baseDelay: number;
+  /** Delay used before the previous retry, or the base delay for the first one */
+  previousDelay: number;
+  /** Source of randomness for jittered strategies */
+  random: RandomSource;
+}
+
+/**
+ * Computes the delay in milliseconds before the next retry.
+ * The result is clamped to RetryOptions.minDelay and RetryOptions.maxDelay
+ * by the RetryService.
+ */
+export type BackoffStrategy = (context: BackoffContext) => number;
+
+/**
+ * Factory for the built-in backoff strategies.
+ *
+ * @example
+ * retryService.retry(fn, {
+ *   retries: 5,
+ *   delay: 100,
+ *   backoff: Backoff.fullJitter(),
+ *   maxDelay: 5000,
+ * });
+ */
+export class Backoff {
+  /** Waits the base delay before every retry: 100, 100, 100, ... */
+  static constant(): BackoffStrategy {
+    return ({ baseDelay }) => baseDelay;
+  }
+
+  /** Grows the delay by the base delay on every retry: 100, 200, 300, ... */
+  static linear(): BackoffStrategy {
+    return ({ baseDelay, retryNumber }) => baseDelay * retryNumber;
+  }
+
+  /** Multiplies the delay on every retry: 100, 200, 400, ... for a multiplier of 2 */
+  static exponential(multiplier = 2): BackoffStrategy {
+    return ({ baseDelay, retryNumber }) =>
+      Backoff.exponentialDelay(baseDelay, retryNumber, multiplier);
+  }
+
+  /** Picks a random delay between zero and the exponential delay */
+  static fullJitter(multiplier = 2): BackoffStrategy {
+    return ({ baseDelay, retryNumber, random }) =>
+      random.next() *
+      Backoff.exponentialDelay(baseDelay, retryNumber, multiplier);
+  }
+
+  /** Keeps half of the exponential delay and randomizes the other half */
+  static equalJitter(multiplier = 2): BackoffStrategy {
+    return ({ baseDelay, retryNumber, random }) => {
+      const half =
+        Backoff.exponentialDelay(baseDelay, retryNumber, multiplier) / 2;
+
+      return half + random.next() * half;
+    };
+  }
+
+  /**
+   * Picks a random delay between the base delay and the previous delay
+   * times the multiplier, so consecutive delays are spread apart
+   */
+  static decorrelatedJitter(multiplier = 3): BackoffStrategy {
+    return ({ baseDelay, previousDelay, random }) => {
+      const upper = Math.max(baseDelay, previousDelay * multiplier);
+
+      return baseDelay + random.next() * (upper - baseDelay);
+    };
+  }
+
+  /** Follows the Fibonacci sequence: 100, 100, 200, 300, 500, ... */
+  static fibonacci(): BackoffStrategy {
+    return ({ baseDelay, retryNumber }) => {
+      let [previous, current] = [0, 1];
+
+      for (let i = 1; i < retryNumber; i += 1) {
+        [previous, current] = [current, previous + current];
+      }
+
+      // Kept finite, so a zero base delay stays zero however long it runs
+      return baseDelay * Math.min(current, Number.MAX_VALUE);
+    };
+  }
+
+  private static exponentialDelay(
+    baseDelay: number,
+    retryNumber: number,
+    multiplier: number
+  ): number {
+    // Kept finite, so a zero base delay or random factor never gives NaN
+    // once the factor overflows. The service clamps the delay anyway.
+    return Math.min(
+      baseDelay * Math.min(multiplier ** (retryNumber - 1), Number.MAX_VALUE),
+      Number.MAX_VALUE
+    );
+  }
+}
@@ -0,0 +1,219 @@
+import { NetworkError } from "../util/custom-error/CustomError";
+import { Classifiers } from "./Error.classifiers";
+import { RetryService } from "./Retry.service";
+
+const systemError = (code: string) =>
+  Object.assign(new Error(`connect ${code}`), { code });
+
+const httpError = (status: number) =>
+  Object.assign(new Error(`Request failed with status ${status}`), { status });
+
+describe("Classifiers", () => {
+  describe("systemError", () => {
+    it.each(["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"])(
+      "should retry %s",
+      (code) => {
+        // When
+        const decision = Classifiers.systemError()(systemError(code));
+
+        // Then
+        expect(decision).toEqual({ retry: true, rule: `system-error:${code}` });
+      }
+    );
+
+    it("should not retry other codes", () => {
+      // When
+      const decision = Classifiers.systemError()(systemError("ENOENT"));
+
+      // Then
+      expect(decision.retry).toBe(false);
+    });
+  });
+
+  describe("httpStatus", () => {
+    it.each([408, 429, 500, 502, 503, 504])("should retry %s", (status) => {
+      // When
+      const decision = Classifiers.httpStatus()(httpError(status));
+
+      // Then
+      expect(decision).toEqual({ retry: true, rule: `http-status:${status}` });
+    });
+
+    it.each([400, 404, 501])("should not retry %s", (status) => {
+      // When
+      const decision = Classifiers.httpStatus()(httpError(status));
+
+      // Then
+      expect(decision.retry).toBe(false);
+    });
+
+    it("should read the status from statusCode and response.status", () => {
+      // Given
+      const classify = Classifiers.httpStatus();
+
+      // When/Then
+      expect(classify({ statusCode: 503 }).retry).toBe(true);
+      expect(classify({ response: { status: 429 } }).retry).toBe(true);
+    });
+  });
+
+  it("should retry fetch network failures but not other TypeErrors", () => {
+    // Given
+    const classify = Classifiers.fetchNetworkError();
+
+    // When/Then
+    expect(classify(new TypeError("fetch failed"))).toEqual({
+      retry: true,
+      rule: "fetch-network-error",
+    });
+    expect(classify(new TypeError("Failed to fetch")).retry).toBe(true);
+    expect(classify(new TypeError("x is not a function")).retry).toBe(false);
+  });
+
+  it("should retry AbortErrors and NetworkErrors", () => {
+    // Given
+    const abortError = new Error("The operation was aborted");
+    abortError.name = "AbortError";
+
+    // When/Then
+    expect(Classifiers.abortError()(abortError)).toEqual({
+      retry: true,
+      rule: "name:AbortError",
+    });
+    expect(Classifiers.networkError()(new NetworkError())).toEqual({
+      retry: true,
+      rule: "instance:NetworkError",
+    });
+  });
+
+  describe("combinators", () => {
+    it("should retry with the rule of the first classifier that matches", () => {
+      // Given
+      const classify = Classifiers.anyOf(
+        Classifiers.httpStatus(),
+        Classifiers.byName("WalletLockedError")
+      );
+      const error = new Error("Wallet is locked");
+      error.name = "WalletLockedError";
+
+      // When/Then
+      expect(classify(error)).toEqual({
+        retry: true,
+        rule: "name:WalletLockedError",
+      });
+      expect(classify(new Error("Unknown"))).toEqual({ retry: false });
+    });
+
+    it("should invert a classifier", () => {
+      // Given
+      const classify = Classifiers.not(Classifiers.httpStatus());
+
+      // When/Then
+      expect(classify(httpError(400))).toEqual({
+        retry: true,
+        rule: "not(http-status)",
+      });
+      expect(classify(httpError(503)).retry).toBe(false);
+    });
+
+    it("should match instances of any of the given classes", () => {
+      // Given
+      class RateLimitedError extends Error {}
+      const classify = Classifiers.byInstance(NetworkError, RateLimitedError);
+
+      // When/Then
+      expect(classify(new RateLimitedError())).toEqual({
+        retry: true,
+        rule: "instance:RateLimitedError",
+      });
+      expect(classify(new Error()).retry).toBe(false);
+    });
+
+    it("should find a match in the cause chain", () => {
+      // Given
+      const error = Object.assign(new TypeError("fetch failed"), {
+        cause: Object.assign(new Error("socket hang up"), {
+          cause: systemError("ECONNRESET"),
+        }),
+      });
+
+      // When
+      const decision = Classifiers.walkCause(Classifiers.systemError())(error);
+
+      // Then
+      expect(decision).toEqual({
+        retry: true,
+        rule: "cause(system-error:ECONNRESET)",
+      });
+    });
+
+    it("should stop walking causes at the maximum depth", () => {
+      // Given
+      const error: Error & { cause?: unknown } = new Error("Loop");
+      error.cause = error;
+
+      // When
+      const decision = Classifiers.walkCause(
+        Classifiers.systemError(),
+        3
+      )(error);
+
+      // Then
+      expect(decision).toEqual({ retry: false });
+    });
+  });
+
+  it("should classify every built-in transient failure", () => {
+    // Given
+    const classify = Classifiers.transient();
+
+    // When/Then
+    expect(classify(systemError("ETIMEDOUT")).retry).toBe(true);
+    expect(classify(httpError(502)).retry).toBe(true);
+    expect(classify(new NetworkError()).retry).toBe(true);
+    expect(
+      classify(
+        Object.assign(new TypeError("fetch failed"), {
+          cause: systemError("EAI_AGAIN"),
+        })
+      )
+    ).toEqual({ retry: true, rule: "fetch-network-error" });
+    expect(classify(httpError(404)).retry).toBe(false);
+  });
+
+  it("should record the rule in the retry reasons", async () => {
+    // Given
+    const service = new RetryService(
+      {
+        debug: vi.fn(),
+        error: vi.fn(),
+        trace: vi.fn(),
+        log: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+      },
+      { delay: vi.fn().mockResolvedValue(undefined), now: vi.fn(() => 0) }
+    );
+    const onComplete = vi.fn();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce("success");
+
+    // When
+    await service.retry(fn, {
+      retries: 1,
+      retryOnError: Classifiers.transient(),
+      onComplete,
+    });
+
+    // Then
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        retryReasons: [
+          { type: "error", value: expect.any(Error), rule: "http-status:503" },
+        ],
+      })
+    );
+  });
+});
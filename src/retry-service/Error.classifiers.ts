@@ -0,0 +1,223 @@
+import { NetworkError } from "../util/custom-error/CustomError";
+import type { RetryDecision } from "./Retry.service";
+
+/**
+ * Decides whether an error is worth retrying and names the rule that
+ * decided, so the rule ends up in RetryReport.retryReasons.
+ * Can be passed as RetryOptions.retryOnError as is.
+ */
+export type ErrorClassifier = (error: unknown) => RetryDecision;
+
+/**
+ * Node system error codes of failures that usually go away on their own
+ */
+const TRANSIENT_SYSTEM_ERROR_CODES = [
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+];
+
+/**
+ * Messages of the TypeError fetch rejects with when the network fails,
+ * in Node, Chromium, Firefox and Safari
+ */
+const FETCH_NETWORK_ERROR_MESSAGES = [
+  "fetch failed",
+  "Failed to fetch",
+  "NetworkError when attempting to fetch resource.",
+  "Load failed",
+];
+
+/**
+ * Factory for the built-in error classifiers and their combinators.
+ *
+ * @example
+ * retryService.retry(fetchWallet, {
+ *   retries: 3,
+ *   retryOnError: Classifiers.anyOf(
+ *     Classifiers.transient(),
+ *     Classifiers.byName("WalletLockedError")
+ *   ),
+ * });
+ */
+export class Classifiers {
+  /**
+   * Retries every failure the other built-in classifiers recognize,
+   * on the error itself or anywhere in its cause chain
+   */
+  static transient(): ErrorClassifier {
+    return Classifiers.walkCause(
+      Classifiers.anyOf(
+        Classifiers.systemError(),
+        Classifiers.httpStatus(),
+        Classifiers.fetchNetworkError(),
+        Classifiers.abortError(),
+        Classifiers.networkError()
+      )
+    );
+  }
+
+  /**
+   * Retries Node system errors whose code is one of the given ones:
+   * "system-error:ECONNRESET"
+   * @param codes Defaults to ECONNRESET, ETIMEDOUT, EAI_AGAIN and EPIPE
+   */
+  static systemError(
+    codes: readonly string[] = TRANSIENT_SYSTEM_ERROR_CODES
+  ): ErrorClassifier {
+    return (error) => {
+      const code = Classifiers.property(error, "code");
+
+      return typeof code === "string" && codes.includes(code)
+        ? { retry: true, rule: `system-error:${code}` }
+        : { retry: false, rule: "system-error" };
+    };
+  }
+
+  /**
+   * Retries errors carrying an HTTP status in `status`, `statusCode` or
+   * `response.status`: "http-status:503"
+   * @param isRetryable Defaults to 408, 429 and 5xx except 501 Not Implemented
+   */
+  static httpStatus(
+    isRetryable: (status: number) => boolean = (status) =>
+      status === 408 ||
+      status === 429 ||
+      (status >= 500 && status <= 599 && status !== 501)
+  ): ErrorClassifier {
+    return (error) => {
+      const status =
+        Classifiers.property(error, "status") ??
+        Classifiers.property(error, "statusCode") ??
+        Classifiers.property(Classifiers.property(error, "response"), "status");
+
+      return typeof status === "number" && isRetryable(status)
+        ? { retry: true, rule: `http-status:${status}` }
+        : { retry: false, rule: "http-status" };
+    };
+  }
+
+  /**
+   * Retries the TypeError fetch rejects with when the request never got a
+   * response: "fetch-network-error"
+   */
+  static fetchNetworkError(): ErrorClassifier {
+    return (error) => ({
+      retry:
+        error instanceof TypeError &&
+        FETCH_NETWORK_ERROR_MESSAGES.includes(error.message),
+      rule: "fetch-network-error",
+    });
+  }
+
+  /**
+   * Retries errors named AbortError, such as a request aborted by its own
+   * per-request timeout: "name:AbortError"
+   */
+  static abortError(): ErrorClassifier {
+    return Classifiers.byName("AbortError");
+  }
+
+  /**
+   * Retries the NetworkError from util/custom-error: "instance:NetworkError"
+   */
+  static networkError(): ErrorClassifier {
+    return Classifiers.byInstance(NetworkError);
+  }
+
+  /**
+   * Retries errors with one of the given names: "name:TimeoutError"
+   */
+  static byName(...names: string[]): ErrorClassifier {
+    return (error) => {
+      const name = Classifiers.property(error, "name");
+
+      return typeof name === "string" && names.includes(name)
+        ? { retry: true, rule: `name:${name}` }
+        : { retry: false, rule: "name" };
+    };
+  }
+
+  /**
+   * Retries instances of one of the given error classes:
+   * "instance:NetworkError"
+   */
+  static byInstance(
+    ...classes: Array<abstract new (...args: any[]) => unknown>
+  ): ErrorClassifier {
+    return (error) => {
+      const match = classes.find((errorClass) => error instanceof errorClass);
+
+      return match
+        ? { retry: true, rule: `instance:${match.name}` }
+        : { retry: false, rule: "instance" };
+    };
+  }
+
+  /**
+   * Retries when any of the classifiers does, with the rule of the first one
+   */
+  static anyOf(...classifiers: ErrorClassifier[]): ErrorClassifier {
+    return (error) => {
+      for (const classifier of classifiers) {
+        const decision = classifier(error);
+
+        if (decision.retry) {
+          return decision;
+        }
+      }
+
+      return { retry: false };
+    };
+  }
+
+  /**
+   * Retries when the classifier doesn't: "not(http-status)"
+   */
+  static not(classifier: ErrorClassifier): ErrorClassifier {
+    return (error) => {
+      const decision = classifier(error);
+
+      return {
+        retry: !decision.retry,
+        rule: `not(${decision.rule ?? "classifier"})`,
+      };
+    };
+  }
+
+  /**
+   * Applies the classifier to the error and then to every error in its
+   * `cause` chain, retrying on the first match. Matches on a cause are
+   * named after it: "cause(system-error:ECONNRESET)"
+   * @param maxDepth Number of causes followed at most, guarding against cycles
+   */
+  static walkCause(
+    classifier: ErrorClassifier,
+    maxDepth = 10
+  ): ErrorClassifier {
+    return (error) => {
+      let current: unknown = error;
+
+      for (let depth = 0; depth <= maxDepth && current != null; depth++) {
+        const decision = classifier(current);
+
+        if (decision.retry) {
+          return depth === 0
+            ? decision
+            : { ...decision, rule: `cause(${decision.rule ?? "classifier"})` };
+        }
+
+        current = Classifiers.property(current, "cause");
+      }
+
+      return { retry: false };
+    };
+  }
+
+  private static property(value: unknown, key: string): unknown {
+    return typeof value === "object" && value !== null
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  }
+}
@@ -0,0 +1,229 @@
+import { LogHandler } from "../logger-service/Logger.service";
+import {
+  RetryAbortedError,
+  RetryAttemptsExceededError,
+  RetryBatchStoppedError,
+  RetryConfigurationError,
+  RetryService,
+} from "./Retry.service";
+
+describe("retryAll", () => {
+  let service: RetryService;
+  let mockLogger: LogHandler;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      error: vi.fn(),
+      trace: vi.fn(),
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    };
+    mockTimer = {
+      delay: vi.fn().mockResolvedValue(undefined),
+      now: vi.fn(() => 0),
+    };
+    service = new RetryService(mockLogger, mockTimer);
+  });
+
+  it("should return a result for every item in order", async () => {
+    // Given
+    const attempts = new Map<number, number>();
+    const fn = vi.fn(async (item: number) => {
+      const attempt = (attempts.get(item) ?? 0) + 1;
+      attempts.set(item, attempt);
+      if (item === 2 && attempt === 1) {
+        throw new Error("Transient failure");
+      }
+      if (item === 3) {
+        throw new Error("Invalid item");
+      }
+      return item * 10;
+    });
+
+    // When
+    const { results, summary } = await service.retryAll([1, 2, 3], fn, {
+      retries: 1,
+    });
+
+    // Then
+    expect(results.map(({ item, payload }) => [item, payload.data])).toEqual([
+      [1, 10],
+      [2, 20],
+      [3, null],
+    ]);
+    expect(results[2].payload.error?.error).toBeInstanceOf(
+      RetryAttemptsExceededError
+    );
+    expect(results.map(({ report }) => report.attempts)).toEqual([1, 2, 2]);
+    expect(summary).toEqual(
+      expect.objectContaining({
+        total: 3,
+        succeeded: 2,
+        failed: 1,
+        skipped: 0,
+        attempts: 5,
+        stopped: false,
+      })
+    );
+  });
+
+  it("should run no more items at a time than the concurrency", async () => {
+    // Given
+    let running = 0;
+    let maxRunning = 0;
+    const fn = vi.fn(async (item: number) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await Promise.resolve();
+      running--;
+      return item;
+    });
+
+    // When
+    await service.retryAll([1, 2, 3, 4, 5], fn, {
+      retries: 0,
+      concurrency: 2,
+    });
+
+    // Then
+    expect(fn).toHaveBeenCalledTimes(5);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should list the slowest items first", async () => {
+    // Given
+    let time = 0;
+    mockTimer.now.mockImplementation(() => time);
+    const durations: Record<string, number> = { a: 30, b: 100, c: 50 };
+    const fn = async (item: string) => {
+      time += durations[item];
+      return item;
+    };
+
+    // When
+    const { summary } = await service.retryAll(["a", "b", "c"], fn, {
+      retries: 0,
+      concurrency: 1,
+      slowestItems: 2,
+    });
+
+    // Then
+    expect(summary.slowest).toEqual([
+      { item: "b", index: 1, totalTime: 100 },
+      { item: "c", index: 2, totalTime: 50 },
+    ]);
+  });
+
+  it("should stop the batch once the failure ratio threshold is passed", async () => {
+    // Given
+    const fn = vi.fn(async (item: number) => {
+      if (item <= 3) {
+        throw new Error("Service unavailable");
+      }
+      return item;
+    });
+
+    // When
+    const { results, summary } = await service.retryAll(
+      [1, 2, 3, 4, 5, 6],
+      fn,
+      {
+        retries: 0,
+        concurrency: 1,
+        failureRatioThreshold: 0.5,
+        minimumItems: 2,
+      }
+    );
+
+    // Then
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(summary).toEqual(
+      expect.objectContaining({
+        succeeded: 0,
+        failed: 2,
+        skipped: 4,
+        stopped: true,
+      })
+    );
+    expect(results[5].payload.error?.error).toBeInstanceOf(
+      RetryBatchStoppedError
+    );
+    expect(results[5].report.attempts).toBe(0);
+  });
+
+  it("should abort running items when the batch stops", async () => {
+    // Given
+    let signal: AbortSignal | undefined;
+    const fn = vi.fn(
+      (item: number, context: { signal: AbortSignal }) =>
+        new Promise<number>((_, reject) => {
+          if (item === 1) {
+            reject(new Error("Service unavailable"));
+          } else {
+            signal = context.signal;
+          }
+        })
+    );
+
+    // When
+    const { results, summary } = await service.retryAll([2, 1], fn, {
+      retries: 0,
+      concurrency: 2,
+      failureRatioThreshold: 0,
+    });
+
+    // Then
+    expect(signal?.aborted).toBe(true);
+    expect(results[0].payload.error?.error).toBeInstanceOf(RetryAbortedError);
+    expect(summary.failed).toBe(2);
+  });
+
+  it("should skip the items not yet started when the signal aborts", async () => {
+    // Given
+    const controller = new AbortController();
+    const fn = vi.fn(async (item: number) => {
+      controller.abort();
+      return item;
+    });
+
+    // When
+    const { results, summary } = await service.retryAll([1, 2, 3, 4, 5], fn, {
+      retries: 0,
+      concurrency: 1,
+      signal: controller.signal,
+    });
+
+    // Then
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(summary).toEqual(
+      expect.objectContaining({
+        failed: 1,
+        skipped: 4,
+        stopped: false,
+      })
+    );
+    expect(results[4].payload.error?.error).toBeInstanceOf(RetryAbortedError);
+    expect(results[4].report.attempts).toBe(0);
+  });
+
+  it.each([
+    { name: "zero concurrency", options: { retries: 1, concurrency: 0 } },
+    {
+      name: "a failure ratio above 1",
+      options: { retries: 1, failureRatioThreshold: 1.5 },
+    },
+    { name: "zero minimum items", options: { retries: 1, minimumItems: 0 } },
+    { name: "invalid item options", options: { retries: -1 } },
+  ])("should throw RetryConfigurationError for $name", async ({ options }) => {
+    // When/Then
+    await expect(
+      service.retryAll([1], async (item) => item, options)
+    ).rejects.toThrow(RetryConfigurationError);
+  });
+});
@@ -0,0 +1,212 @@
+import DataErrorPayloadUtil from "../util/data-error-payload/DataErrorPayload.utils";
+import { RetryAbortedError, RetryBatchStoppedError } from "./Retry.service";
+import type {
+  AttemptContext,
+  RetryEngine,
+  RetryOptions,
+  RetryPayload,
+  RetryReport,
+} from "./Retry.service";
+import { RetryOptionsValidator } from "./Retry.validator";
+
+/**
+ * Options of RetryService.retryAll.
+ * Every RetryOptions option applies to each item on its own, and
+ * onComplete is called with the report of each item.
+ */
+export interface RetryAllOptions<
+  T = unknown,
+  E extends Error = Error,
+> extends RetryOptions<T, E> {
+  /**
+   * Maximum number of items retried at the same time
+   * @default Infinity
+   */
+  concurrency?: number;
+  /**
+   * Ratio of failed items between 0 and 1 that stops the batch once passed.
+   * Running items are aborted and items not started yet are skipped.
+   * When undefined, every item is run.
+   */
+  failureRatioThreshold?: number;
+  /**
+   * Minimum number of settled items before the failure ratio is evaluated
+   * @default 1
+   */
+  minimumItems?: number;
+  /**
+   * Number of slowest items listed in the summary
+   * @default 5
+   */
+  slowestItems?: number;
+}
+
+/**
+ * Outcome of a single item of a RetryService.retryAll batch
+ */
+export interface RetryBatchItemResult<I, T, E extends Error = Error> {
+  item: I;
+  index: number;
+  payload: RetryPayload<T, E>;
+  report: RetryReport;
+}
+
+/**
+ * Overview of a RetryService.retryAll batch
+ */
+export interface RetryBatchSummary<I> {
+  total: number;
+  succeeded: number;
+  /** Items that ran and did not succeed, including those aborted on stop */
+  failed: number;
+  /** Items never started because the batch was stopped or aborted */
+  skipped: number;
+  /** Attempts made across all items */
+  attempts: number;
+  totalTime: number;
+  /** Whether the failure ratio threshold stopped the batch */
+  stopped: boolean;
+  /** Items that took longest, slowest first */
+  slowest: Array<{ item: I; index: number; totalTime: number }>;
+}
+
+export interface RetryBatchResult<I, T, E extends Error = Error> {
+  /** One result per item, in the order of the items */
+  results: RetryBatchItemResult<I, T, E>[];
+  summary: RetryBatchSummary<I>;
+}
+
+/**
+ * Retries the function for every item, as RetryService.retryAll
+ */
+export async function retryAll<I, T, E extends Error>(
+  engine: RetryEngine,
+  items: readonly I[],
+  fn: (item: I, context: AttemptContext<T>) => Promise<T>,
+  options: RetryAllOptions<T, E>
+): Promise<RetryBatchResult<I, T, E>> {
+  const {
+    concurrency = Infinity,
+    failureRatioThreshold,
+    minimumItems = 1,
+    slowestItems = 5,
+    ...itemOptions
+  } = options;
+  RetryOptionsValidator.assertValid(options, engine.logger, "batch");
+
+  const startTime = engine.timer.now();
+  const batchController = new AbortController();
+  const onAbort = () => batchController.abort(options.signal?.reason);
+
+  if (options.signal?.aborted) {
+    onAbort();
+  }
+
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  const results: Array<RetryBatchItemResult<I, T, E> | undefined> = [];
+  let next = 0;
+  let settled = 0;
+  let failed = 0;
+  let stopped = false;
+
+  const runItems = async () => {
+    // Stops taking items once the batch is stopped or aborted
+    while (next < items.length && !batchController.signal.aborted) {
+      const index = next++;
+      const item = items[index];
+      const { payload, report } = await engine.settle<T, E>(
+        (context) => fn(item, context),
+        engine.withMetrics({ ...itemOptions, signal: batchController.signal })
+      );
+
+      results[index] = { item, index, payload, report };
+      settled++;
+      failed += DataErrorPayloadUtil.isErr(payload) ? 1 : 0;
+
+      if (
+        !stopped &&
+        failureRatioThreshold !== undefined &&
+        settled >= minimumItems &&
+        failed / settled > failureRatioThreshold
+      ) {
+        stopped = true;
+        engine.logger.warn(
+          `Stopping retry batch: ${failed} of ${settled} items failed`
+        );
+        batchController.abort(
+          new RetryBatchStoppedError(
+            `Retry batch stopped after ${failed} of ${settled} items failed`
+          )
+        );
+      }
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, items.length) }, runItems)
+    );
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+
+  const completed = items.map(
+    (item, index): RetryBatchItemResult<I, T, E> =>
+      results[index] ?? skippedItem(engine, item, index, batchController)
+  );
+
+  return {
+    results: completed,
+    summary: {
+      total: items.length,
+      succeeded: completed.filter(({ payload }) =>
+        DataErrorPayloadUtil.isOk(payload)
+      ).length,
+      failed,
+      skipped: items.length - settled,
+      attempts: completed.reduce(
+        (total, { report }) => total + report.attempts,
+        0
+      ),
+      totalTime: engine.timer.now() - startTime,
+      stopped,
+      slowest: [...completed]
+        .filter(({ report }) => report.attempts > 0)
+        .sort((a, b) => b.report.totalTime - a.report.totalTime)
+        .slice(0, slowestItems)
+        .map(({ item, index, report }) => ({
+          item,
+          index,
+          totalTime: report.totalTime,
+        })),
+    },
+  };
+}
+
+/**
+ * Result of an item that was never started because the batch stopped
+ * or was aborted
+ */
+function skippedItem<I, T, E extends Error>(
+  engine: RetryEngine,
+  item: I,
+  index: number,
+  batchController: AbortController
+): RetryBatchItemResult<I, T, E> {
+  const reason = batchController.signal.reason;
+  const report = engine.emptyReport();
+
+  return {
+    item,
+    index,
+    payload: DataErrorPayloadUtil.createErr({
+      error:
+        reason instanceof RetryBatchStoppedError
+          ? reason
+          : new RetryAbortedError(),
+      report,
+    }),
+    report,
+  };
+}
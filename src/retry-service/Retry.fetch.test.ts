@@ -0,0 +1,254 @@
+import { createRetryingFetch } from "./Retry.fetch";
+import type { RetryingFetchOptions } from "./Retry.fetch";
+import { RetryService } from "./Retry.service";
+
+describe("createRetryingFetch", () => {
+  let service: RetryService;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+  let requests: Array<{ method: string; url: string; body: string }>;
+
+  /**
+   * Stand-in server answering every request with the next response,
+   * or rejecting with the next error
+   */
+  const standIn = (...replies: Array<Response | Error>) =>
+    vi.fn(async (input: RequestInfo | URL) => {
+      const request = input as Request;
+      requests.push({
+        method: request.method,
+        url: request.url,
+        body: await request.text(),
+      });
+      const reply = replies.shift() ?? new Response("ok");
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return reply;
+    });
+
+  const createFetch = (options: RetryingFetchOptions) =>
+    createRetryingFetch({ delay: 100, ...options }, service);
+
+  beforeEach(() => {
+    mockTimer = {
+      delay: vi.fn().mockResolvedValue(undefined),
+      now: vi.fn(() => 0),
+    };
+    service = new RetryService(
+      {
+        debug: vi.fn(),
+        error: vi.fn(),
+        trace: vi.fn(),
+        log: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+      },
+      mockTimer
+    );
+    requests = [];
+  });
+
+  it("should retry retryable statuses and report why", async () => {
+    // Given
+    const onComplete = vi.fn();
+    const fetch = standIn(
+      new Response("busy", { status: 503 }),
+      new Response("wallet", { status: 200 })
+    );
+    const retryingFetch = createFetch({ fetch, onComplete });
+
+    // When
+    const response = await retryingFetch("http://localhost/wallets/1");
+
+    // Then
+    expect(await response.text()).toBe("wallet");
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 2,
+        retryReasons: [expect.objectContaining({ rule: "http-status:503" })],
+      })
+    );
+  });
+
+  it("should not retry statuses that are not retryable", async () => {
+    // Given
+    const fetch = standIn(new Response("missing", { status: 404 }));
+    const retryingFetch = createFetch({ fetch });
+
+    // When
+    const response = await retryingFetch("http://localhost/wallets/1");
+
+    // Then
+    expect(response.status).toBe(404);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry the statuses it is given", async () => {
+    // Given
+    const fetch = standIn(new Response("conflict", { status: 409 }));
+    const retryingFetch = createFetch({ fetch, retryOnStatus: [409] });
+
+    // When
+    const response = await retryingFetch("http://localhost/wallets/1");
+
+    // Then
+    expect(response.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return the last response once retries run out", async () => {
+    // Given
+    const fetch = standIn(
+      new Response("busy", { status: 503 }),
+      new Response("still busy", { status: 503 })
+    );
+    const retryingFetch = createFetch({ fetch, retries: 1 });
+
+    // When
+    const response = await retryingFetch("http://localhost/wallets/1");
+
+    // Then
+    expect(response.status).toBe(503);
+    expect(await response.text()).toBe("still busy");
+  });
+
+  it("should wait as long as Retry-After asks", async () => {
+    // Given
+    const fetch = standIn(
+      new Response("slow down", {
+        status: 429,
+        headers: { "Retry-After": "2" },
+      })
+    );
+    const retryingFetch = createFetch({ fetch });
+
+    // When
+    await retryingFetch("http://localhost/wallets/1");
+
+    // Then
+    expect(mockTimer.delay).toHaveBeenCalledWith(2000);
+  });
+
+  it("should retry network errors anywhere in the cause chain", async () => {
+    // Given
+    const networkError = Object.assign(new TypeError("fetch failed"), {
+      cause: Object.assign(new Error("read ECONNRESET"), {
+        code: "ECONNRESET",
+      }),
+    });
+    const fetch = standIn(networkError);
+    const retryingFetch = createFetch({ fetch });
+
+    // When
+    const response = await retryingFetch("http://localhost/wallets/1");
+
+    // Then
+    expect(response.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry other errors", async () => {
+    // Given
+    const error = new TypeError("Invalid header value");
+    const fetch = standIn(error);
+    const retryingFetch = createFetch({ fetch });
+
+    // When/Then
+    await expect(retryingFetch("http://localhost/wallets/1")).rejects.toBe(
+      error
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject invalid input instead of throwing, like fetch", async () => {
+    // Given
+    const fetch = standIn();
+    const retryingFetch = createFetch({ fetch });
+
+    // When
+    const response = retryingFetch("relative/path");
+
+    // Then
+    await expect(response).rejects.toThrow(TypeError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  describe("methods", () => {
+    it("should send requests with non-idempotent methods once", async () => {
+      // Given
+      const fetch = standIn(new Response("busy", { status: 503 }));
+      const retryingFetch = createFetch({ fetch });
+
+      // When
+      const response = await retryingFetch("http://localhost/payments", {
+        method: "POST",
+        body: "amount=10",
+      });
+
+      // Then
+      expect(response.status).toBe(503);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject requests sent once with the error fetch threw", async () => {
+      // Given
+      const networkError = new TypeError("fetch failed");
+      const fetch = standIn(networkError);
+      const retryingFetch = createFetch({ fetch });
+
+      // When/Then
+      await expect(
+        retryingFetch("http://localhost/payments", { method: "POST" })
+      ).rejects.toBe(networkError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry the methods it is told to, with the same body every time", async () => {
+      // Given
+      const fetch = standIn(
+        new Response("busy", { status: 503 }),
+        new Response("busy", { status: 503 })
+      );
+      const retryingFetch = createFetch({
+        fetch,
+        retryMethods: ["POST"],
+      });
+
+      // When
+      await retryingFetch("http://localhost/payments", {
+        method: "POST",
+        body: JSON.stringify({ amount: 10 }),
+        headers: { "Idempotency-Key": "payment-1" },
+      });
+
+      // Then
+      expect(requests).toEqual(
+        Array(3).fill({
+          method: "POST",
+          url: "http://localhost/payments",
+          body: '{"amount":10}',
+        })
+      );
+    });
+  });
+
+  it("should stop retrying when the request's signal aborts", async () => {
+    // Given
+    const controller = new AbortController();
+    const fetch = standIn(new Response("busy", { status: 503 }));
+    mockTimer.delay.mockImplementation(async () => controller.abort());
+    const retryingFetch = createFetch({ fetch });
+
+    // When/Then
+    await expect(
+      retryingFetch("http://localhost/wallets/1", {
+        signal: controller.signal,
+      })
+    ).rejects.toThrow("Retry operation aborted");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,148 @@
+import RetryAfterUtil from "../util/retry-after/RetryAfter.utils";
+import { Backoff } from "./Backoff.strategies";
+import { Classifiers } from "./Error.classifiers";
+import { AttemptTimeoutError, retryService } from "./Retry.service";
+import type { IRetry, RetryDecision, RetryOptions } from "./Retry.service";
+
+/**
+ * Function with the signature of the global fetch
+ */
+export type FetchFunction = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+) => Promise<Response>;
+
+/**
+ * Options of createRetryingFetch.
+ * Retries are driven by the response status and network errors, so
+ * retryOnResult and payloadAware are not available, and cancellation
+ * comes from the request's own signal.
+ */
+export interface RetryingFetchOptions extends Omit<
+  RetryOptions<Response>,
+  "retries" | "retryOnResult" | "payloadAware" | "signal"
+> {
+  /**
+   * @default 2
+   */
+  retries?: number;
+  /**
+   * Statuses to retry, as a list or a predicate.
+   * Responses with a Retry-After header are retried after the delay it
+   * asks for, capped at maxDelay when set.
+   * @default 408, 429 and 5xx except 501
+   */
+  retryOnStatus?: readonly number[] | ((status: number) => boolean);
+  /**
+   * Methods that may be retried. Requests with other methods are sent once.
+   * @default ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]
+   */
+  retryMethods?: readonly string[];
+  /**
+   * Fetch implementation requests are sent with, e.g. a stand-in for tests
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+}
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"];
+
+/**
+ * Network failures fetch rejects with, anywhere in the cause chain,
+ * and attempts cut short by attemptTimeout
+ */
+const retryOnNetworkError = Classifiers.anyOf(
+  Classifiers.walkCause(
+    Classifiers.anyOf(
+      Classifiers.fetchNetworkError(),
+      Classifiers.systemError()
+    )
+  ),
+  Classifiers.byInstance(AttemptTimeoutError)
+);
+
+/**
+ * Creates a function with the signature of fetch that retries failed
+ * requests with RetryService.
+ *
+ * Network errors and retryable statuses are retried, and a Retry-After
+ * header overrides the backoff. Only idempotent methods are retried unless
+ * retryMethods says otherwise. The request body is re-created for every
+ * attempt. Once retries run out, the last response is returned like fetch
+ * would, whatever its status.
+ *
+ * @example
+ * const fetchWithRetry = createRetryingFetch({ retries: 3, timeout: 10_000 });
+ * const response = await fetchWithRetry("https://api.example.com/wallets");
+ */
+export function createRetryingFetch(
+  options: RetryingFetchOptions = {},
+  service: IRetry = retryService
+): FetchFunction {
+  const {
+    retryOnStatus,
+    retryMethods = IDEMPOTENT_METHODS,
+    fetch: fetchImplementation,
+    retries = 2,
+    ...retryOptions
+  } = options;
+
+  const classifyStatus = Classifiers.httpStatus(
+    Array.isArray(retryOnStatus)
+      ? (status) => retryOnStatus.includes(status)
+      : (retryOnStatus as ((status: number) => boolean) | undefined)
+  );
+
+  const retryOnResult = (response: Response): RetryDecision => {
+    const decision = classifyStatus(response);
+    const retryAfter = decision.retry
+      ? RetryAfterUtil.parse(response.headers.get("Retry-After"))
+      : undefined;
+
+    return retryAfter === undefined
+      ? decision
+      : {
+          ...decision,
+          delay: Math.min(retryAfter, options.maxDelay ?? Infinity),
+        };
+  };
+
+  // Async like fetch, so that invalid input rejects instead of throwing
+  return async (input, init) => {
+    // Built once so that every attempt can send a fresh clone of its body
+    const request = new Request(input, { ...init, signal: undefined });
+    const canRetry = retryMethods
+      .map((method) => method.toUpperCase())
+      .includes(request.method.toUpperCase());
+    const sendRequest = fetchImplementation ?? globalThis.fetch;
+
+    return service.retry<Response>(
+      (context) => sendRequest(request.clone(), { signal: context.signal }),
+      {
+        backoff: Backoff.exponential(),
+        delay: 200,
+        retryOnError: retryOnNetworkError,
+        ...retryOptions,
+        retries: canRetry ? retries : 0,
+        // Requests sent once fail with the error fetch threw, like fetch
+        ...(!canRetry && { retryOnError: () => false }),
+        retryOnResult,
+        signal:
+          init?.signal ?? (input instanceof Request ? input.signal : undefined),
+        onRetry: async (reason, nextDelay, context) => {
+          // Frees the connection of a response that is thrown away
+          await (reason as Partial<Response> | undefined)?.body
+            ?.cancel()
+            .catch(() => undefined);
+          await retryOptions.onRetry?.(reason, nextDelay, context);
+        },
+      }
+    );
+  };
+}
+
+/**
+ * fetch that retries idempotent requests twice with exponential backoff
+ * on network errors and retryable statuses
+ */
+export const retryingFetch = createRetryingFetch();
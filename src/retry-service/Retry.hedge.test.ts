@@ -0,0 +1,245 @@
+import { LogHandler } from "../logger-service/Logger.service";
+import {
+  RetryAttemptsExceededError,
+  RetryConfigurationError,
+  RetryService,
+  RetryTimeoutError,
+} from "./Retry.service";
+
+describe("hedge", () => {
+  let service: RetryService;
+  let mockLogger: LogHandler;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+  let now: number;
+  let pendingDelays: Array<{ ms: number; resolve: () => void }>;
+
+  const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const elapse = async (ms: number) => {
+    now += ms;
+    const due = pendingDelays.filter((delay) => delay.ms <= ms);
+    pendingDelays = pendingDelays.filter((delay) => delay.ms > ms);
+    due.forEach((delay) => delay.resolve());
+    await flushPromises();
+  };
+
+  const deferred = <T>() => {
+    let resolve: (value: T) => void = () => {};
+    let reject: (error: unknown) => void = () => {};
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      error: vi.fn(),
+      trace: vi.fn(),
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    };
+    mockTimer = {
+      delay: vi.fn(
+        (ms: number) =>
+          new Promise<void>((resolve) => pendingDelays.push({ ms, resolve }))
+      ),
+      now: vi.fn(() => now),
+    };
+    service = new RetryService(mockLogger, mockTimer);
+    now = 0;
+    pendingDelays = [];
+  });
+
+  it("should not hedge when the first attempt succeeds in time", async () => {
+    // Given
+    const fn = vi.fn(async () => "success");
+    const onComplete = vi.fn();
+
+    // When
+    const result = await service.hedge(fn, { hedgeDelay: 100, onComplete });
+
+    // Then
+    expect(result).toBe("success");
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 1,
+        hedgedAttempts: [{ attempt: 1, startOffset: 0, outcome: "success" }],
+      })
+    );
+  });
+
+  it("should launch a copy after the hedge delay and take the first success", async () => {
+    // Given
+    const first = deferred<string>();
+    const second = deferred<string>();
+    const signals: AbortSignal[] = [];
+    const fn = vi.fn(({ signal }: { signal: AbortSignal }) => {
+      signals.push(signal);
+      return signals.length === 1 ? first.promise : second.promise;
+    });
+    const onComplete = vi.fn();
+
+    // When
+    const pending = service.hedge(fn, { hedgeDelay: 100, onComplete });
+    await elapse(100);
+    second.resolve("from hedge");
+
+    // Then
+    await expect(pending).resolves.toBe("from hedge");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 2,
+        retryingOperationSucceeded: true,
+        hedgedAttempts: [
+          { attempt: 1, startOffset: 0, outcome: "cancelled" },
+          { attempt: 2, startOffset: 100, outcome: "success" },
+        ],
+      })
+    );
+  });
+
+  it("should launch at most maxHedges extra copies", async () => {
+    // Given
+    const fn = vi.fn(() => new Promise<string>(() => {}));
+
+    // When
+    service.hedge(fn, { hedgeDelay: 100, maxHedges: 2 });
+    await elapse(100);
+    await elapse(100);
+    await elapse(100);
+
+    // Then
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(fn).toHaveBeenLastCalledWith(
+      expect.objectContaining({ attempt: 3, retriesLeft: 0 })
+    );
+  });
+
+  it("should launch the next copy right away after a retryable error", async () => {
+    // Given
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Transient failure"))
+      .mockResolvedValueOnce("success");
+
+    // When
+    const result = await service.hedge(fn, { hedgeDelay: 1000 });
+
+    // Then
+    expect(result).toBe("success");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(now).toBe(0);
+  });
+
+  it("should fail with a non-retryable error and abort the other copies", async () => {
+    // Given
+    const first = deferred<string>();
+    const error = new Error("Not found");
+    const signals: AbortSignal[] = [];
+    const fn = vi.fn(({ signal }: { signal: AbortSignal }) => {
+      signals.push(signal);
+      return signals.length === 1
+        ? first.promise
+        : new Promise<string>(() => {});
+    });
+
+    // When
+    const pending = service.hedge(fn, {
+      hedgeDelay: 100,
+      retryOnError: () => false,
+    });
+    await elapse(100);
+    first.reject(error);
+
+    // Then
+    await expect(pending).rejects.toBe(error);
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it("should throw a RetryAttemptsExceededError when every copy fails", async () => {
+    // Given
+    const fn = vi.fn().mockRejectedValue(new Error("Service unavailable"));
+    const onComplete = vi.fn();
+
+    // When/Then
+    await expect(
+      service.hedge(fn, { hedgeDelay: 100, maxHedges: 2, onComplete })
+    ).rejects.toThrow(RetryAttemptsExceededError);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 3,
+        hedgedAttempts: [
+          { attempt: 1, startOffset: 0, outcome: "error" },
+          { attempt: 2, startOffset: 0, outcome: "error" },
+          { attempt: 3, startOffset: 0, outcome: "error" },
+        ],
+      })
+    );
+  });
+
+  it("should hedge results rejected by retryOnResult", async () => {
+    // Given
+    const fn = vi
+      .fn()
+      .mockResolvedValueOnce("stale")
+      .mockResolvedValueOnce("fresh");
+
+    // When
+    const result = await service.hedge(fn, {
+      hedgeDelay: 100,
+      retryOnResult: async (value: string) => value === "stale",
+    });
+
+    // Then
+    expect(result).toBe("fresh");
+  });
+
+  it("should time out and abort the running copies", async () => {
+    // Given
+    let signal: AbortSignal | undefined;
+    const fn = vi.fn((context: { signal: AbortSignal }) => {
+      signal = context.signal;
+      return new Promise<string>(() => {});
+    });
+
+    // When
+    const assertion = expect(
+      service.hedge(fn, { hedgeDelay: 1000, timeout: 500 })
+    ).rejects.toThrow(RetryTimeoutError);
+    await elapse(500);
+
+    // Then
+    await assertion;
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it.each([
+    { name: "negative hedge delay", options: { hedgeDelay: -1 } },
+    {
+      name: "negative max hedges",
+      options: { hedgeDelay: 100, maxHedges: -1 },
+    },
+    { name: "zero timeout", options: { hedgeDelay: 100, timeout: 0 } },
+    {
+      name: "NaN max hedges",
+      options: { hedgeDelay: 100, maxHedges: NaN },
+    },
+  ])("should throw RetryConfigurationError for $name", async ({ options }) => {
+    // When/Then
+    await expect(service.hedge(async () => "success", options)).rejects.toThrow(
+      RetryConfigurationError
+    );
+  });
+});
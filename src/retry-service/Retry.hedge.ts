@@ -0,0 +1,240 @@
+import { RetryReportBuilder } from "./Retry.service";
+import type {
+  AttemptContext,
+  AttemptOutcome,
+  HedgedAttempt,
+  RetryDecision,
+  RetryEnding,
+  RetryEngine,
+  RetryOptions,
+} from "./Retry.service";
+import { RetryOptionsValidator } from "./Retry.validator";
+
+/**
+ * Options of RetryService.hedge
+ */
+export interface HedgeOptions<
+  T = unknown,
+  E extends Error = Error,
+> extends Pick<
+  RetryOptions<T, E>,
+  | "timeout"
+  | "retryOnError"
+  | "retryOnResult"
+  | "signal"
+  | "fallback"
+  | "onGiveUp"
+  | "onComplete"
+  | "sanitizeRetryReasons"
+  | "sanitizationThreshold"
+  | "operationName"
+> {
+  /**
+   * Time in milliseconds to wait for an attempt before launching the next
+   * copy next to it
+   */
+  hedgeDelay: number;
+  /**
+   * Number of extra copies that may be launched. A copy is also launched
+   * right away when a running one fails with a retryable error or result.
+   * @default 1
+   */
+  maxHedges?: number;
+}
+
+/**
+ * Runs copies of the function side by side, as RetryService.hedge
+ */
+export async function hedge<T, E extends Error>(
+  engine: RetryEngine,
+  fn: (context: AttemptContext<T>) => Promise<T>,
+  options: HedgeOptions<T, E>
+): Promise<T> {
+  RetryOptionsValidator.assertValid(options, engine.logger, "hedge");
+
+  const { logger, timer } = engine;
+  const maxHedges = options.maxHedges ?? 1;
+  const retryOptions = engine.withMetrics<RetryOptions<T, E>>({
+    ...options,
+    retries: maxHedges,
+  });
+  const startTime = timer.now();
+  const deadline = options.timeout ? startTime + options.timeout : null;
+  const sanitizationThreshold = options.sanitizationThreshold ?? 500;
+  const timeLeft = () =>
+    deadline === null ? null : Math.max(0, deadline - timer.now());
+
+  return new Promise<T>((resolve, reject) => {
+    const attempts: HedgedAttempt[] = [];
+    const attemptControllers: AbortController[] = [];
+    const timerController = new AbortController();
+    let hedgeController = new AbortController();
+    let reportBuilder = new RetryReportBuilder(startTime);
+    let lastOutcome: AttemptOutcome<T> | undefined;
+    let running = 0;
+    let settled = false;
+
+    const finish = (ending: RetryEnding<T>) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      timerController.abort();
+      hedgeController.abort();
+      options.signal?.removeEventListener("abort", onAbort);
+      attempts.forEach((attempt, index) => {
+        if (attempt.outcome === "cancelled") {
+          attemptControllers[index].abort();
+        }
+      });
+
+      engine
+        .finish(
+          ending,
+          reportBuilder.withHedgedAttempts(attempts),
+          retryOptions
+        )
+        .then(resolve, reject);
+    };
+
+    const onAbort = () => finish({ status: "abort" });
+
+    const launchNext = () => {
+      hedgeController.abort();
+
+      if (attempts.length <= maxHedges) {
+        launch();
+      } else if (running === 0) {
+        finish(
+          lastOutcome?.status === "result"
+            ? { status: "success", result: lastOutcome.result }
+            : {
+                status: "failure",
+                error: (lastOutcome as { error: E }).error,
+                exhausted: true,
+              }
+        );
+      }
+    };
+
+    const settle = async (
+      attempt: HedgedAttempt,
+      outcome: AttemptOutcome<T>
+    ) => {
+      running -= 1;
+
+      if (settled) {
+        return;
+      }
+
+      const isError = outcome.status === "error";
+      const value = isError ? outcome.error : outcome.result;
+
+      if (isError) {
+        reportBuilder = reportBuilder.withError(value);
+      }
+
+      let decision: RetryDecision;
+
+      try {
+        decision = await engine.decide(
+          retryOptions,
+          isError ? "retryOnError" : "retryOnResult",
+          value
+        );
+      } catch (decisionError) {
+        attempt.outcome = isError ? "error" : "retryable-result";
+        finish({ status: "decision-error", error: decisionError });
+        return;
+      }
+
+      if (settled) {
+        return;
+      }
+
+      if (!decision.retry) {
+        attempt.outcome = isError ? "error" : "success";
+        finish(
+          isError
+            ? { status: "failure", error: value, exhausted: false }
+            : { status: "success", result: value as T }
+        );
+        return;
+      }
+
+      attempt.outcome = isError ? "error" : "retryable-result";
+      lastOutcome = outcome;
+      reportBuilder = reportBuilder.withRetryReason(
+        isError ? "error" : "result",
+        value,
+        options.sanitizeRetryReasons !== false,
+        sanitizationThreshold,
+        decision.rule
+      );
+      launchNext();
+    };
+
+    const launch = () => {
+      const attemptController = new AbortController();
+      const attempt: HedgedAttempt = {
+        attempt: attempts.length + 1,
+        startOffset: timer.now() - startTime,
+        outcome: "cancelled",
+      };
+
+      logger.debug(`Launching hedged attempt ${attempt.attempt}`);
+
+      attempts.push(attempt);
+      attemptControllers.push(attemptController);
+      reportBuilder = reportBuilder.withAttempt();
+      running += 1;
+
+      new Promise<T>((resolveAttempt) =>
+        resolveAttempt(
+          fn({
+            attempt: attempt.attempt,
+            retriesLeft: maxHedges + 1 - attempt.attempt,
+            startTime,
+            previousOutcome: lastOutcome,
+            remainingTime: timeLeft(),
+            signal: attemptController.signal,
+          })
+        )
+      ).then(
+        (result) => settle(attempt, { status: "result", result }),
+        (error) => settle(attempt, { status: "error", error })
+      );
+
+      if (attempts.length <= maxHedges) {
+        const controller = new AbortController();
+
+        hedgeController = controller;
+        timer.delay(options.hedgeDelay, controller.signal).then(() => {
+          if (!controller.signal.aborted && !settled) {
+            launchNext();
+          }
+        });
+      }
+    };
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const remaining = timeLeft();
+
+    if (remaining !== null) {
+      timer.delay(remaining, timerController.signal).then(() => {
+        if (!timerController.signal.aborted) {
+          finish({ status: "timeout" });
+        }
+      });
+    }
+
+    launch();
+  });
+}
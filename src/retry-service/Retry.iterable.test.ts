@@ -0,0 +1,206 @@
+import { LogHandler } from "../logger-service/Logger.service";
+import {
+  RetryAttemptsExceededError,
+  RetryConfigurationError,
+  RetryService,
+} from "./Retry.service";
+
+describe("retryIterable", () => {
+  let service: RetryService;
+  let mockLogger: LogHandler;
+  let mockTimer: {
+    delay: ReturnType<typeof vi.fn>;
+    now: ReturnType<typeof vi.fn>;
+  };
+
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const items: T[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  /**
+   * Source of pages 1 to count that fails once before each page listed
+   */
+  const flakyPages = (count: number, failBefore: number[]) => {
+    const failures = new Set(failBefore);
+
+    return vi.fn(async function* (after: number | undefined) {
+      for (let page = (after ?? 0) + 1; page <= count; page++) {
+        if (failures.delete(page)) {
+          throw new Error(`Page ${page} failed`);
+        }
+        yield page;
+      }
+    });
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      error: vi.fn(),
+      trace: vi.fn(),
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    };
+    mockTimer = {
+      delay: vi.fn().mockResolvedValue(undefined),
+      now: vi.fn(() => 0),
+    };
+    service = new RetryService(mockLogger, mockTimer);
+  });
+
+  it("should yield every item of a stream that does not fail", async () => {
+    // Given
+    const factory = flakyPages(3, []);
+
+    // When
+    const items = await collect(service.retryIterable(factory, { retries: 2 }));
+
+    // Then
+    expect(items).toEqual([1, 2, 3]);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(factory).toHaveBeenCalledWith(undefined);
+  });
+
+  it("should resume after the last yielded item without duplicates", async () => {
+    // Given
+    const factory = flakyPages(5, [3, 5]);
+
+    // When
+    const items = await collect(
+      service.retryIterable(factory, { retries: 1, delay: 100 })
+    );
+
+    // Then
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(factory.mock.calls).toEqual([[undefined], [2], [4]]);
+    expect(mockTimer.delay).toHaveBeenCalledTimes(2);
+  });
+
+  it("should apply the retries to every failure separately", async () => {
+    // Given
+    const factory = flakyPages(3, [1, 2, 3]);
+
+    // When
+    const items = await collect(service.retryIterable(factory, { retries: 1 }));
+
+    // Then
+    expect(items).toEqual([1, 2, 3]);
+  });
+
+  it("should resume from the cursor of the last item", async () => {
+    // Given
+    let failed = false;
+    const factory = vi.fn(async function* (afterId: string | undefined) {
+      const rows = [{ id: "a" }, { id: "b" }, { id: "c" }];
+      const start = afterId
+        ? rows.findIndex((row) => row.id === afterId) + 1
+        : 0;
+
+      for (const row of rows.slice(start)) {
+        if (row.id === "b" && !failed) {
+          failed = true;
+          throw new Error("Connection reset");
+        }
+        yield row;
+      }
+    });
+
+    // When
+    const items = await collect(
+      service.retryIterable(factory, {
+        retries: 1,
+        cursor: (row: { id: string }) => row.id,
+      })
+    );
+
+    // Then
+    expect(items.map((row) => row.id)).toEqual(["a", "b", "c"]);
+    expect(factory).toHaveBeenLastCalledWith("a");
+  });
+
+  it("should throw after the items yielded so far once retries run out", async () => {
+    // Given
+    const factory = vi.fn(async function* (after: number | undefined) {
+      if (after === undefined) {
+        yield 1;
+      }
+      throw new Error("Service unavailable");
+    });
+    const items: number[] = [];
+
+    // When/Then
+    await expect(async () => {
+      for await (const item of service.retryIterable(factory, {
+        retries: 1,
+      })) {
+        items.push(item);
+      }
+    }).rejects.toThrow(RetryAttemptsExceededError);
+    expect(items).toEqual([1]);
+    expect(factory.mock.calls).toEqual([[undefined], [1]]);
+  });
+
+  it("should report on the whole stream", async () => {
+    // Given
+    const factory = flakyPages(4, [2, 4]);
+    const onComplete = vi.fn();
+
+    // When
+    await collect(
+      service.retryIterable(factory, { retries: 1, delay: 50, onComplete })
+    );
+
+    // Then
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempts: 7,
+        errors: [expect.any(Error), expect.any(Error)],
+        delays: [50, 50],
+        resumes: 2,
+        retryingOperationSucceeded: true,
+      })
+    );
+  });
+
+  it("should close the source when the consumer stops early", async () => {
+    // Given
+    let closed = false;
+    const factory = async function* () {
+      try {
+        yield 1;
+        yield 2;
+      } finally {
+        closed = true;
+      }
+    };
+    const onComplete = vi.fn();
+
+    // When
+    for await (const item of service.retryIterable(factory, {
+      retries: 1,
+      onComplete,
+    })) {
+      expect(item).toBe(1);
+      break;
+    }
+
+    // Then
+    expect(closed).toBe(true);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ attempts: 1, resumes: 0 })
+    );
+  });
+
+  it("should throw RetryConfigurationError for invalid options", async () => {
+    // When/Then
+    await expect(
+      collect(service.retryIterable(flakyPages(1, []), { retries: -1 }))
+    ).rejects.toThrow(RetryConfigurationError);
+  });
+});
@@ -0,0 +1,117 @@
+import type {
+  AttemptContext,
+  RetryEngine,
+  RetryOptions,
+  RetryReport,
+} from "./Retry.service";
+import { RetryOptionsValidator } from "./Retry.validator";
+
+/**
+ * Opens an async iterable, resuming after the item the cursor points at.
+ * The cursor is undefined when the stream is opened for the first time,
+ * or when it failed before yielding anything.
+ */
+export type ResumableIterableFactory<T, C> = (
+  cursor: C | undefined
+) => AsyncIterable<T>;
+
+/**
+ * Options of RetryService.retryIterable.
+ * Every option applies to getting a single item, so `retries` is the number
+ * of retries allowed per item and `timeout` bounds each item with its retries.
+ */
+export interface RetryIterableOptions<
+  T = unknown,
+  C = T,
+  E extends Error = Error,
+> extends Omit<
+  RetryOptions<T, E>,
+  | "retryOnResult"
+  | "afterAttempt"
+  | "payloadAware"
+  | "fallback"
+  | "onGiveUp"
+  | "onComplete"
+> {
+  /**
+   * Cursor to resume the stream after an item, e.g. the id of the last row
+   * or the token of the next page.
+   * @default The item itself
+   */
+  cursor?: (item: T) => C;
+  /**
+   * Callback executed once the stream ends, fails or is left early,
+   * with a report covering every item
+   */
+  onComplete?: (report: RetryReport) => void;
+}
+
+/**
+ * Yields the items of an async iterable, reopening it after a failure,
+ * as RetryService.retryIterable
+ */
+export async function* retryIterable<T, C, E extends Error>(
+  engine: RetryEngine,
+  factory: ResumableIterableFactory<T, C>,
+  options: RetryIterableOptions<T, C, E>
+): AsyncGenerator<T, void, undefined> {
+  // Recorded once for the whole stream rather than once per item
+  const {
+    cursor: toCursor,
+    onComplete,
+    ...itemOptions
+  } = engine.withMetrics(options);
+  RetryOptionsValidator.assertValid(itemOptions, engine.logger);
+
+  const startTime = engine.timer.now();
+  const reports: RetryReport[] = [];
+  let iterator: AsyncIterator<T> | undefined;
+  let cursor: C | undefined;
+  let opened = 0;
+
+  const nextItem = async (context: AttemptContext<IteratorResult<T>>) => {
+    const current = iterator ?? factory(cursor)[Symbol.asyncIterator]();
+
+    if (!iterator) {
+      opened++;
+    }
+
+    // Forget the iterator while next() is pending, so an attempt that
+    // fails or is abandoned makes the next one reopen the stream
+    iterator = undefined;
+    const result = await current.next();
+
+    if (context.signal.aborted) {
+      void current.return?.().catch(() => undefined);
+    } else {
+      iterator = current;
+    }
+
+    return result;
+  };
+
+  try {
+    while (true) {
+      const result = await engine.run<IteratorResult<T>, E>(nextItem, {
+        ...itemOptions,
+        onComplete: (report) => reports.push(report),
+      });
+
+      if (result.done) {
+        return;
+      }
+
+      cursor = toCursor
+        ? toCursor(result.value)
+        : (result.value as unknown as C);
+      yield result.value;
+    }
+  } finally {
+    void iterator?.return?.().catch(() => undefined);
+
+    onComplete?.({
+      ...engine.mergeReports(reports, startTime),
+      resumes: Math.max(0, opened - 1),
+    });
+  }
+}
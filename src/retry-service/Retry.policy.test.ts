@@ -0,0 +1,123 @@
+import { RetryPolicy, Retryable } from "./Retry.policy";
+import type { IRetry } from "./Retry.service";
+import { RetryAttemptsExceededError, RetryService } from "./Retry.service";
+
+describe("RetryPolicy", () => {
+  let service: IRetry;
+
+  beforeEach(() => {
+    service = new RetryService(
+      {
+        debug: vi.fn(),
+        error: vi.fn(),
+        trace: vi.fn(),
+        log: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+      },
+      { delay: vi.fn().mockResolvedValue(undefined), now: vi.fn(() => 0) }
+    );
+  });
+
+  it("should retry with the policy's options", async () => {
+    // Given
+    const retrySpy = vi.spyOn(service, "retry");
+    const policy = new RetryPolicy({ retries: 2, delay: 100 }, service);
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Transient failure"))
+      .mockResolvedValueOnce("success");
+
+    // When
+    const result = await policy.execute(fn);
+
+    // Then
+    expect(result).toBe("success");
+    expect(retrySpy).toHaveBeenCalledWith(fn, { retries: 2, delay: 100 });
+  });
+
+  it("should create a new policy when extended", () => {
+    // Given
+    const policy = new RetryPolicy({ retries: 2, delay: 100 }, service);
+
+    // When
+    const extended = policy.with({ retries: 5 });
+
+    // Then
+    expect(extended).not.toBe(policy);
+    expect(extended.options).toEqual({ retries: 5, delay: 100 });
+    expect(policy.options).toEqual({ retries: 2, delay: 100 });
+  });
+
+  it("should not be affected by changes to the options it was built from", () => {
+    // Given
+    const options = { retries: 2 };
+    const policy = new RetryPolicy(options, service);
+
+    // When
+    options.retries = 10;
+
+    // Then
+    expect(policy.options.retries).toBe(2);
+    expect(Object.isFrozen(policy.options)).toBe(true);
+  });
+
+  describe("wrap", () => {
+    it("should retry the wrapped function with the same arguments", async () => {
+      // Given
+      const fetchWallet = vi
+        .fn(async (id: string, currency: string) => `${id}:${currency}`)
+        .mockRejectedValueOnce(new Error("Transient failure"));
+      const policy = new RetryPolicy({ retries: 1 }, service);
+
+      // When
+      const fetchWalletWithRetry = policy.wrap(fetchWallet);
+      const result = await fetchWalletWithRetry("wallet-1", "USD");
+
+      // Then
+      expect(result).toBe("wallet-1:USD");
+      expect(fetchWallet).toHaveBeenCalledTimes(2);
+      expect(fetchWallet).toHaveBeenLastCalledWith("wallet-1", "USD");
+    });
+
+    it("should throw the retry error once retries are exhausted", async () => {
+      // Given
+      const policy = new RetryPolicy({ retries: 1 }, service);
+      const failing = policy.wrap(async () => {
+        throw new Error("Service unavailable");
+      });
+
+      // When/Then
+      await expect(failing()).rejects.toThrow(RetryAttemptsExceededError);
+    });
+  });
+
+  describe("Retryable", () => {
+    it("should retry decorated methods and keep this", async () => {
+      // Given
+      const policy = new RetryPolicy({ retries: 2 }, service);
+
+      class WalletService {
+        calls = 0;
+
+        @Retryable(policy)
+        async fetchBalance(id: string): Promise<string> {
+          this.calls += 1;
+          if (this.calls < 3) {
+            throw new Error("Transient failure");
+          }
+          return `${id}:100`;
+        }
+      }
+
+      const walletService = new WalletService();
+
+      // When
+      const result = await walletService.fetchBalance("wallet-1");
+
+      // Then
+      expect(result).toBe("wallet-1:100");
+      expect(walletService.calls).toBe(3);
+    });
+  });
+});
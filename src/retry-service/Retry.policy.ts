@@ -0,0 +1,88 @@
+import { retryService } from "./Retry.service";
+import type { AttemptContext, IRetry, RetryOptions } from "./Retry.service";
+
+/**
+ * Immutable, reusable set of retry options.
+ *
+ * A policy is defined once, stored next to the dependency it protects and
+ * extended where a call site needs something different. Every method that
+ * changes options returns a new policy and leaves the original untouched.
+ *
+ * @example
+ * const walletPolicy = new RetryPolicy({ retries: 3, delay: 200 });
+ * const fetchWalletWithRetry = walletPolicy.wrap(fetchWallet);
+ * const patient = walletPolicy.with({ retries: 5, timeout: 10_000 });
+ */
+export class RetryPolicy<T = unknown, E extends Error = Error> {
+  private readonly policyOptions: Readonly<RetryOptions<T, E>>;
+  private readonly service: IRetry;
+
+  constructor(options: RetryOptions<T, E>, service: IRetry = retryService) {
+    this.policyOptions = Object.freeze({ ...options });
+    this.service = service;
+  }
+
+  /**
+   * Options the policy retries with
+   */
+  public get options(): Readonly<RetryOptions<T, E>> {
+    return this.policyOptions;
+  }
+
+  /**
+   * Creates a new policy with the given options replacing this policy's
+   */
+  public with(overrides: Partial<RetryOptions<T, E>>): RetryPolicy<T, E> {
+    return new RetryPolicy(
+      { ...this.policyOptions, ...overrides },
+      this.service
+    );
+  }
+
+  /**
+   * Retries the function with this policy's options
+   */
+  public execute<R extends T>(
+    fn: (context: AttemptContext<R>) => Promise<R>
+  ): Promise<R> {
+    return this.service.retry<R, E>(
+      fn,
+      this.policyOptions as RetryOptions<R, E>
+    );
+  }
+
+  /**
+   * Turns the function into one that is retried with this policy's options
+   * on every call, with the same parameters, return type and `this`
+   */
+  public wrap<This, A extends unknown[], R extends T>(
+    fn: (this: This, ...args: A) => Promise<R>
+  ): (this: This, ...args: A) => Promise<R> {
+    const policy = this;
+
+    return function (this: This, ...args: A): Promise<R> {
+      return policy.execute(() => fn.apply(this, args));
+    };
+  }
+}
+
+/**
+ * Method decorator retrying every call of the method with the given policy
+ *
+ * @example
+ * class WalletService {
+ *   @Retryable(walletPolicy)
+ *   async fetchWallet(id: string): Promise<Wallet> { ... }
+ * }
+ */
+export function Retryable<T, E extends Error>(policy: RetryPolicy<T, E>) {
+  return function <This, A extends unknown[], R extends T>(
+    method: (this: This, ...args: A) => Promise<R>,
+    _context: ClassMethodDecoratorContext<
+      This,
+      (this: This, ...args: A) => Promise<R>
+    >
+  ): (this: This, ...args: A) => Promise<R> {
+    return policy.wrap(method);
+  };
+}
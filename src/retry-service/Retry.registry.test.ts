@@ -0,0 +1,246 @@
+import { RetryPolicy } from "./Retry.policy";
+import { RetryPolicyRegistry } from "./Retry.registry";
+import {
+  RetryAttemptsExceededError,
+  RetryConfigurationError,
+  RetryService,
+} from "./Retry.service";
+
+describe("RetryPolicyRegistry", () => {
+  let registry: RetryPolicyRegistry;
+
+  beforeEach(() => {
+    registry = new RetryPolicyRegistry();
+  });
+
+  it("should return the options a policy was registered with", () => {
+    // Given
+    registry.register("payments", { retries: 3, delay: 200 });
+
+    // When
+    const options = registry.get("payments");
+
+    // Then
+    expect(options).toEqual({ retries: 3, delay: 200 });
+    expect(registry.has("payments")).toBe(true);
+    expect(registry.names).toEqual(["payments"]);
+  });
+
+  it("should register the options of a RetryPolicy", () => {
+    // Given
+    const policy = new RetryPolicy({ retries: 2, timeout: 1000 });
+
+    // When
+    registry.register("wallet-read", policy);
+
+    // Then
+    expect(registry.get("wallet-read")).toEqual({ retries: 2, timeout: 1000 });
+  });
+
+  it("should throw RetryConfigurationError for an unknown policy", () => {
+    // When/Then
+    expect(() => registry.get("missing")).toThrow(
+      new RetryConfigurationError('Unknown retry policy "missing"')
+    );
+  });
+
+  it("should throw RetryConfigurationError when registering invalid options", () => {
+    // When/Then
+    expect(() => registry.register("payments", { retries: -1 })).toThrow(
+      expect.objectContaining({
+        message:
+          'Retry policy "payments" is invalid: retries must be a non-negative integer (got -1)',
+        issues: [
+          {
+            field: "retries",
+            value: -1,
+            reason: "must be a non-negative integer",
+          },
+        ],
+      })
+    );
+  });
+
+  describe("environment variables", () => {
+    it("should override options from RETRY_<NAME>_<OPTION> variables", () => {
+      // Given
+      registry.register("wallet-read", { retries: 1, delay: 100 });
+
+      // When
+      registry.loadFromEnv({
+        RETRY_WALLET_READ_RETRIES: "5",
+        RETRY_WALLET_READ_ATTEMPT_TIMEOUT: "2000",
+        RETRY_WALLET_READ_EXPONENTIAL_BACKOFF: "true",
+        RETRY_UNRELATED: "value",
+      });
+
+      // Then
+      expect(registry.get("wallet-read")).toEqual({
+        retries: 5,
+        delay: 100,
+        attemptTimeout: 2000,
+        exponentialBackoff: true,
+      });
+    });
+
+    it("should apply variables loaded before the policy was registered", () => {
+      // Given
+      registry.loadFromEnv({ RETRY_PAYMENTS_RETRIES: "4" });
+
+      // When
+      registry.register("payments", { retries: 1 });
+
+      // Then
+      expect(registry.get("payments").retries).toBe(4);
+    });
+
+    it.each([
+      {
+        name: "a number that is not a number",
+        env: { RETRY_PAYMENTS_DELAY: "fast" },
+        message: 'RETRY_PAYMENTS_DELAY must be a number, got "fast"',
+      },
+      {
+        name: "a boolean that is not a boolean",
+        env: { RETRY_PAYMENTS_PAYLOAD_AWARE: "yes" },
+        message:
+          'RETRY_PAYMENTS_PAYLOAD_AWARE must be true or false, got "yes"',
+      },
+      {
+        name: "a value that makes the policy invalid",
+        env: { RETRY_PAYMENTS_STRICT_TIMEOUT: "true" },
+        message:
+          'Retry policy "payments" is invalid: strictTimeout requires a timeout (got true)',
+      },
+    ])("should throw RetryConfigurationError for $name", ({ env, message }) => {
+      // Given
+      registry.register("payments", { retries: 1 });
+
+      // When/Then
+      expect(() => registry.loadFromEnv(env)).toThrow(
+        expect.objectContaining({ name: "RetryConfigurationError", message })
+      );
+    });
+
+    it("should keep the previous overrides when new ones are invalid", () => {
+      // Given
+      registry.register("payments", { retries: 1 });
+      registry.loadFromEnv({ RETRY_PAYMENTS_RETRIES: "3" });
+
+      // When
+      expect(() =>
+        registry.loadFromEnv({ RETRY_PAYMENTS_RETRIES: "-2" })
+      ).toThrow(RetryConfigurationError);
+
+      // Then
+      expect(registry.get("payments").retries).toBe(3);
+    });
+  });
+
+  describe("configuration files", () => {
+    it("should override options from JSON", () => {
+      // Given
+      registry.register("payments", { retries: 1, delay: 100 });
+
+      // When
+      registry.loadFromJson(
+        '{ "payments": { "retries": 5, "timeout": 10000 } }'
+      );
+
+      // Then
+      expect(registry.get("payments")).toEqual({
+        retries: 5,
+        delay: 100,
+        timeout: 10000,
+      });
+    });
+
+    it("should let environment variables win over the configuration", () => {
+      // Given
+      registry.register("payments", { retries: 1 });
+      registry.loadFromEnv({ RETRY_PAYMENTS_RETRIES: "7" });
+
+      // When
+      registry.loadFromConfig({ payments: { retries: 5 } });
+
+      // Then
+      expect(registry.get("payments").retries).toBe(7);
+    });
+
+    it.each([
+      {
+        name: "malformed JSON",
+        json: "{ payments: ",
+        message: "Retry policy configuration is not valid JSON",
+      },
+      {
+        name: "a configuration that is not an object",
+        json: "[]",
+        message: "Retry policy configuration must be an object of policies",
+      },
+      {
+        name: "an unknown option",
+        json: '{ "payments": { "retry": 5 } }',
+        message: 'Retry policy "payments" has unknown option "retry"',
+      },
+      {
+        name: "an option of the wrong type",
+        json: '{ "payments": { "retries": "5" } }',
+        message: 'Retry policy "payments" option "retries" must be a number',
+      },
+    ])(
+      "should throw RetryConfigurationError for $name",
+      ({ json, message }) => {
+        // When/Then
+        expect(() => registry.loadFromJson(json)).toThrow(
+          expect.objectContaining({
+            name: "RetryConfigurationError",
+            message: expect.stringContaining(message),
+          })
+        );
+      }
+    );
+
+    it("should keep the previous overrides when new ones are invalid", () => {
+      // Given
+      registry.register("payments", { retries: 1 });
+      registry.loadFromConfig({ payments: { retries: 5 } });
+
+      // When
+      expect(() =>
+        registry.loadFromConfig({ payments: { retries: -2 } })
+      ).toThrow(RetryConfigurationError);
+
+      // Then
+      expect(registry.get("payments").retries).toBe(5);
+    });
+  });
+
+  describe("with RetryService", () => {
+    it("should retry with the options of the named policy", async () => {
+      // Given
+      registry.register("payments", { retries: 2 });
+      registry.loadFromEnv({ RETRY_PAYMENTS_RETRIES: "1" });
+      const service = new RetryService(
+        {
+          debug: vi.fn(),
+          error: vi.fn(),
+          trace: vi.fn(),
+          log: vi.fn(),
+          info: vi.fn(),
+          warn: vi.fn(),
+        },
+        { delay: vi.fn().mockResolvedValue(undefined), now: vi.fn(() => 0) },
+        undefined,
+        { policies: registry }
+      );
+      const fn = vi.fn().mockRejectedValue(new Error("Service unavailable"));
+
+      // When/Then
+      await expect(service.retry(fn, "payments")).rejects.toThrow(
+        RetryAttemptsExceededError
+      );
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
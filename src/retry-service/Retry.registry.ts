@@ -0,0 +1,341 @@
+import { RetryConfigurationError } from "./Retry.service";
+import type { RetryOptions } from "./Retry.service";
+import type { RetryPolicy } from "./Retry.policy";
+import { RetryOptionsValidator } from "./Retry.validator";
+
+/**
+ * Retry options that can be tuned from outside the code,
+ * through environment variables or a configuration file
+ */
+export type TunableRetryOptions = Pick<
+  RetryOptions,
+  | "retries"
+  | "delay"
+  | "exponentialBackoff"
+  | "minDelay"
+  | "maxDelay"
+  | "timeout"
+  | "strictTimeout"
+  | "attemptTimeout"
+  | "payloadAware"
+  | "sanitizeRetryReasons"
+  | "sanitizationThreshold"
+>;
+
+/**
+ * Overrides per policy name, as found in a JSON or YAML configuration file
+ *
+ * @example
+ * { "payments": { "retries": 5, "timeout": 10000 } }
+ */
+export type RetryPolicyConfig = Record<string, Partial<TunableRetryOptions>>;
+
+type TunableOption = keyof TunableRetryOptions;
+
+/**
+ * Expected type of every tunable option, used to parse and check overrides
+ */
+const TUNABLE_OPTIONS: Record<TunableOption, "number" | "boolean"> = {
+  retries: "number",
+  delay: "number",
+  exponentialBackoff: "boolean",
+  minDelay: "number",
+  maxDelay: "number",
+  timeout: "number",
+  strictTimeout: "boolean",
+  attemptTimeout: "number",
+  payloadAware: "boolean",
+  sanitizeRetryReasons: "boolean",
+  sanitizationThreshold: "number",
+};
+
+const ENV_PREFIX = "RETRY_";
+
+/**
+ * Overrides per policy name, keyed by the policy name itself for a
+ * configuration file and by its environment name for variables
+ */
+type Overrides = Map<string, Partial<TunableRetryOptions>>;
+
+/**
+ * Named retry policies whose options can be tuned without a redeploy.
+ *
+ * Policies are registered in code with their default options. Values from
+ * a configuration file and from `RETRY_<NAME>_<OPTION>` environment
+ * variables are layered on top, environment variables winning. Names are
+ * matched in upper case with dashes turned into underscores, so the
+ * "wallet-read" policy reads `RETRY_WALLET_READ_ATTEMPT_TIMEOUT`.
+ *
+ * @example
+ * retryPolicies.register("payments", { retries: 3, delay: 200 });
+ * retryPolicies.loadFromEnv(); // RETRY_PAYMENTS_RETRIES=5
+ * await retryService.retry(chargeCard, "payments");
+ */
+export class RetryPolicyRegistry {
+  private readonly defaults = new Map<string, RetryOptions>();
+  private configOverrides: Overrides = new Map();
+  private envOverrides: Overrides = new Map();
+
+  /**
+   * Registers a policy, replacing any policy with the same name.
+   * Callbacks and collaborators such as circuit breakers can only be set here.
+   */
+  public register<T, E extends Error>(
+    name: string,
+    policy: RetryOptions<T, E> | RetryPolicy<T, E>
+  ): this {
+    const options = "options" in policy ? policy.options : policy;
+
+    this.defaults.set(name, { ...options } as RetryOptions);
+    this.resolve(name);
+
+    return this;
+  }
+
+  public has(name: string): boolean {
+    return this.defaults.has(name);
+  }
+
+  /**
+   * Names of all registered policies
+   */
+  public get names(): string[] {
+    return [...this.defaults.keys()];
+  }
+
+  /**
+   * Options of the policy with overrides applied
+   * @throws RetryConfigurationError when no policy has that name
+   */
+  public get<T = unknown, E extends Error = Error>(
+    name: string
+  ): RetryOptions<T, E> {
+    return this.resolve(name) as RetryOptions<T, E>;
+  }
+
+  /**
+   * Reads overrides from `RETRY_<NAME>_<OPTION>` variables, replacing the
+   * ones read before only when every policy stays valid.
+   * Variables that don't end in a known option are ignored.
+   * @throws RetryConfigurationError when a value cannot be parsed or makes
+   * a registered policy invalid
+   */
+  public loadFromEnv(
+    env: Record<string, string | undefined> = process.env
+  ): this {
+    const envOverrides: Overrides = new Map();
+
+    for (const [key, value] of Object.entries(env)) {
+      if (!key.startsWith(ENV_PREFIX) || value === undefined) {
+        continue;
+      }
+
+      const match = RetryPolicyRegistry.matchEnvKey(key);
+
+      if (!match) {
+        continue;
+      }
+
+      const overrides = envOverrides.get(match.policy) ?? {};
+      envOverrides.set(match.policy, {
+        ...overrides,
+        [match.option]: RetryPolicyRegistry.parseEnvValue(
+          key,
+          value,
+          TUNABLE_OPTIONS[match.option]
+        ),
+      });
+    }
+
+    this.names.forEach((name) =>
+      this.resolve(name, this.configOverrides, envOverrides)
+    );
+    this.envOverrides = envOverrides;
+
+    return this;
+  }
+
+  /**
+   * Reads overrides from a JSON configuration file's contents
+   * @throws RetryConfigurationError when the JSON is malformed or invalid
+   */
+  public loadFromJson(json: string): this {
+    let config: unknown;
+
+    try {
+      config = JSON.parse(json);
+    } catch (error) {
+      throw new RetryConfigurationError(
+        `Retry policy configuration is not valid JSON: ${
+          (error as Error).message
+        }`
+      );
+    }
+
+    return this.loadFromConfig(config);
+  }
+
+  /**
+   * Reads overrides from an already parsed configuration, such as the
+   * output of a YAML parser, replacing the ones read before only when
+   * every policy stays valid
+   * @throws RetryConfigurationError when an option is unknown, has the
+   * wrong type or makes a registered policy invalid
+   */
+  public loadFromConfig(config: unknown): this {
+    if (!RetryPolicyRegistry.isRecord(config)) {
+      throw new RetryConfigurationError(
+        "Retry policy configuration must be an object of policies"
+      );
+    }
+
+    const configOverrides: Overrides = new Map();
+
+    for (const [name, overrides] of Object.entries(config)) {
+      configOverrides.set(
+        name,
+        RetryPolicyRegistry.checkOverrides(name, overrides)
+      );
+    }
+
+    this.names.forEach((name) =>
+      this.resolve(name, configOverrides, this.envOverrides)
+    );
+    this.configOverrides = configOverrides;
+
+    return this;
+  }
+
+  private resolve(
+    name: string,
+    configOverrides = this.configOverrides,
+    envOverrides = this.envOverrides
+  ): RetryOptions {
+    const defaults = this.defaults.get(name);
+
+    if (!defaults) {
+      throw new RetryConfigurationError(`Unknown retry policy "${name}"`);
+    }
+
+    const options: RetryOptions = {
+      ...defaults,
+      ...configOverrides.get(name),
+      ...envOverrides.get(RetryPolicyRegistry.toEnvName(name)),
+    };
+
+    const { errors } = RetryOptionsValidator.validate(options);
+
+    if (errors.length > 0) {
+      throw new RetryConfigurationError(
+        `Retry policy "${name}" is invalid: ${errors
+          .map(RetryOptionsValidator.describe)
+          .join("; ")}`,
+        undefined,
+        errors
+      );
+    }
+
+    return options;
+  }
+
+  private static checkOverrides(
+    name: string,
+    overrides: unknown
+  ): Partial<TunableRetryOptions> {
+    if (!RetryPolicyRegistry.isRecord(overrides)) {
+      throw new RetryConfigurationError(
+        `Retry policy "${name}" must be configured with an object`
+      );
+    }
+
+    for (const [option, value] of Object.entries(overrides)) {
+      if (!RetryPolicyRegistry.isTunable(option)) {
+        throw new RetryConfigurationError(
+          `Retry policy "${name}" has unknown option "${option}"`
+        );
+      }
+
+      if (typeof value !== TUNABLE_OPTIONS[option]) {
+        throw new RetryConfigurationError(
+          `Retry policy "${name}" option "${option}" must be a ${TUNABLE_OPTIONS[option]}`
+        );
+      }
+    }
+
+    return overrides as Partial<TunableRetryOptions>;
+  }
+
+  /**
+   * Splits a variable such as RETRY_WALLET_READ_ATTEMPT_TIMEOUT into the
+   * policy (WALLET_READ) and the option (attemptTimeout) it overrides
+   */
+  private static matchEnvKey(
+    key: string
+  ): { policy: string; option: TunableOption } | null {
+    const options = (Object.keys(TUNABLE_OPTIONS) as TunableOption[]).sort(
+      (a, b) => b.length - a.length
+    );
+
+    for (const option of options) {
+      const suffix = `_${RetryPolicyRegistry.toEnvName(option)}`;
+      const policy = key.slice(ENV_PREFIX.length, -suffix.length);
+
+      if (key.endsWith(suffix) && policy.length > 0) {
+        return { policy, option };
+      }
+    }
+
+    return null;
+  }
+
+  private static parseEnvValue(
+    key: string,
+    value: string,
+    type: "number" | "boolean"
+  ): number | boolean {
+    const trimmed = value.trim().toLowerCase();
+
+    if (type === "boolean") {
+      if (trimmed !== "true" && trimmed !== "false") {
+        throw new RetryConfigurationError(
+          `${key} must be true or false, got "${value}"`
+        );
+      }
+
+      return trimmed === "true";
+    }
+
+    const parsed = Number(trimmed);
+
+    if (trimmed === "" || !Number.isFinite(parsed)) {
+      throw new RetryConfigurationError(
+        `${key} must be a number, got "${value}"`
+      );
+    }
+
+    return parsed;
+  }
+
+  /**
+   * "wallet-read" becomes WALLET_READ and "attemptTimeout" ATTEMPT_TIMEOUT
+   */
+  private static toEnvName(name: string): string {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+      .replace(/[^a-zA-Z0-9]+/g, "_")
+      .toUpperCase();
+  }
+
+  private static isTunable(option: string): option is TunableOption {
+    return Object.prototype.hasOwnProperty.call(TUNABLE_OPTIONS, option);
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
+
+/**
+ * Registry the default retryService resolves policy names against
+ */
+export const retryPolicies = new RetryPolicyRegistry();
@@ -1,8 +1,21 @@
+import { Bulkhead } from "../bulkhead-service/Bulkhead.service";
+import { CircuitBreaker } from "../circuit-breaker-service/CircuitBreaker.service";
 import { LogHandler } from "../logger-service/Logger.service";
+import { RateLimiter } from "../rate-limiter-service/RateLimiter.service";
+import { RetryBudget } from "../retry-budget-service/RetryBudget.service";
+import DataErrorPayloadUtil from "../util/data-error-payload/DataErrorPayload.utils";
+import { Backoff } from "./Backoff.strategies";
 import type { RetryOptions, RetryReport } from "./Retry.service";
 import {
+  AttemptTimeoutError,
+  BulkheadFullError,
+  CircuitOpenError,
+  RetryAbortedError,
   RetryAttemptsExceededError,
+  RetryBudgetExhaustedError,
   RetryConfigurationError,
+  RetryHookError,
+  RetryPredicateError,
   RetryReportValidationError,
   RetryService,
   retryService,
@@ -228,6 +241,382 @@ describe("RetryService", () => {
     });
   });
 
+  describe("backoff strategies", () => {
+    const alwaysFailing = () =>
+      vi.fn(async () => {
+        throw new Error("Always fails");
+      });
+
+    it("should use the configured backoff strategy", async () => {
+      // Given
+      const onComplete = vi.fn();
+      const options: RetryOptions = {
+        retries: 4,
+        delay: 100,
+        backoff: Backoff.exponential(),
+        onComplete,
+      };
+
+      // When
+      await expect(service.retry(alwaysFailing(), options)).rejects.toThrow(
+        RetryAttemptsExceededError
+      );
+
+      // Then
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ delays: [100, 200, 400, 800] })
+      );
+    });
+
+    it("should prefer the backoff strategy over exponentialBackoff", async () => {
+      // Given
+      const options: RetryOptions = {
+        retries: 2,
+        delay: 100,
+        exponentialBackoff: true,
+        backoff: Backoff.constant(),
+      };
+
+      // When
+      await expect(service.retry(alwaysFailing(), options)).rejects.toThrow();
+
+      // Then
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(1, 100);
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(2, 100);
+    });
+
+    it("should cap delays at maxDelay", async () => {
+      // Given
+      const onComplete = vi.fn();
+      const options: RetryOptions = {
+        retries: 5,
+        delay: 100,
+        backoff: Backoff.exponential(),
+        maxDelay: 500,
+        onComplete,
+      };
+
+      // When
+      await expect(service.retry(alwaysFailing(), options)).rejects.toThrow();
+
+      // Then
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ delays: [100, 200, 400, 500, 500] })
+      );
+    });
+
+    it("should raise delays to minDelay", async () => {
+      // Given
+      const onComplete = vi.fn();
+      const options: RetryOptions = {
+        retries: 2,
+        delay: 100,
+        backoff: Backoff.fullJitter(),
+        minDelay: 80,
+        onComplete,
+      };
+      const zeroRandomService = new RetryService(mockLogger, mockTimer, {
+        next: () => 0,
+      });
+
+      // When
+      await expect(
+        zeroRandomService.retry(alwaysFailing(), options)
+      ).rejects.toThrow();
+
+      // Then
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ delays: [80, 80] })
+      );
+    });
+
+    it("should draw jitter from the injected random source", async () => {
+      // Given
+      const random = { next: vi.fn().mockReturnValue(0.25) };
+      const jitterService = new RetryService(mockLogger, mockTimer, random);
+      const options: RetryOptions = {
+        retries: 2,
+        delay: 100,
+        backoff: Backoff.fullJitter(),
+      };
+
+      // When
+      await expect(
+        jitterService.retry(alwaysFailing(), options)
+      ).rejects.toThrow();
+
+      // Then
+      expect(random.next).toHaveBeenCalledTimes(2);
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(1, 25);
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(2, 50);
+    });
+
+    it("should hand the previous delay to the strategy", async () => {
+      // Given
+      const strategy = vi.fn(
+        ({ previousDelay }: { previousDelay: number }) => previousDelay + 10
+      );
+
+      // When
+      await expect(
+        service.retry(alwaysFailing(), {
+          retries: 3,
+          delay: 100,
+          backoff: strategy,
+        })
+      ).rejects.toThrow();
+
+      // Then
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(1, 110);
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(2, 120);
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(3, 130);
+      expect(strategy).toHaveBeenNthCalledWith(
+        3,
+        expect.objectContaining({ retryNumber: 3, baseDelay: 100 })
+      );
+    });
+
+    it.each([NaN, -Infinity, -1])(
+      "should give up when a strategy returns %s",
+      async (invalidDelay) => {
+        // Given
+        const onComplete = vi.fn();
+        const onGiveUp = vi.fn();
+        const options: RetryOptions = {
+          retries: 1,
+          delay: 100,
+          backoff: () => invalidDelay,
+          onComplete,
+          onGiveUp,
+        };
+
+        // When/Then
+        await expect(service.retry(alwaysFailing(), options)).rejects.toThrow(
+          new RetryConfigurationError(
+            `Backoff strategy returned an invalid delay: ${invalidDelay}`
+          )
+        );
+        expect(onComplete).toHaveBeenCalledWith(
+          expect.objectContaining({
+            attempts: 1,
+            retryingOperationSucceeded: false,
+          })
+        );
+        expect(onGiveUp).toHaveBeenCalled();
+      }
+    );
+
+    it("should use the fallback when a strategy returns an invalid delay", async () => {
+      // When
+      const result = await service.retry(alwaysFailing(), {
+        retries: 1,
+        backoff: () => NaN,
+        fallback: "cached",
+      });
+
+      // Then
+      expect(result).toBe("cached");
+    });
+
+    it("should cap delays at the longest delay timers support", async () => {
+      // Given
+      const options: RetryOptions = {
+        retries: 2,
+        delay: 3e9,
+        backoff: Backoff.exponential(),
+      };
+
+      // When
+      await expect(service.retry(alwaysFailing(), options)).rejects.toThrow();
+
+      // Then
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(1, 2 ** 31 - 1);
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(2, 2 ** 31 - 1);
+    });
+
+    it("should keep retrying with maxDelay once an exponential backoff overflows", async () => {
+      // Given
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        if (attempts <= 1100) {
+          throw new Error("Still failing");
+        }
+        return "success";
+      });
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 1200,
+        delay: 100,
+        maxDelay: 1000,
+        backoff: Backoff.exponential(),
+      });
+
+      // Then
+      expect(result).toBe("success");
+      expect(mockTimer.delay).toHaveBeenLastCalledWith(1000);
+    });
+
+    it.each([
+      { maxDelay: 5000, expected: 5000 },
+      { maxDelay: undefined, expected: 2 ** 31 - 1 },
+    ])(
+      "should clamp a delay that overflows to Infinity to $expected",
+      async ({ maxDelay, expected }) => {
+        // Given
+        const options: RetryOptions = {
+          retries: 1,
+          delay: 100,
+          maxDelay,
+          backoff: () => Infinity,
+        };
+
+        // When
+        await expect(service.retry(alwaysFailing(), options)).rejects.toThrow(
+          RetryAttemptsExceededError
+        );
+
+        // Then
+        expect(mockTimer.delay).toHaveBeenCalledWith(expected);
+      }
+    );
+  });
+
+  describe("server-directed delays", () => {
+    class RateLimitError extends Error {
+      constructor(public readonly retryAfterMs: number) {
+        super("Too many requests");
+        this.name = "RateLimitError";
+      }
+    }
+
+    it("should wait the delay returned by retryOnError instead of the backoff", async () => {
+      // Given
+      const onComplete = vi.fn();
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        if (attempts === 1) {
+          throw new RateLimitError(5000);
+        }
+        return "success";
+      });
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 2,
+        delay: 100,
+        maxDelay: 1000,
+        retryOnError: (error) =>
+          error instanceof RateLimitError
+            ? { retry: true, delay: error.retryAfterMs }
+            : true,
+        onComplete,
+      });
+
+      // Then
+      expect(result).toBe("success");
+      expect(mockTimer.delay).toHaveBeenCalledWith(5000);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delays: [5000],
+          delaySources: ["decision"],
+        })
+      );
+    });
+
+    it("should wait until the timestamp returned by retryOnResult", async () => {
+      // Given
+      mockTimer.now.mockReturnValue(10_000);
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        return { status: attempts === 1 ? 429 : 200 };
+      });
+
+      // When
+      await service.retry(fn, {
+        retries: 1,
+        retryOnResult: (result) => ({
+          retry: result.status === 429,
+          retryAt: 12_500,
+        }),
+      });
+
+      // Then
+      expect(mockTimer.delay).toHaveBeenCalledWith(2500);
+    });
+
+    it("should accept a Date as the retry timestamp", async () => {
+      // Given
+      mockTimer.now.mockReturnValue(Date.parse("2025-01-01T00:00:00Z"));
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Busy"))
+        .mockResolvedValue("success");
+
+      // When
+      await service.retry(fn, {
+        retries: 1,
+        retryOnError: () => ({
+          retry: true,
+          retryAt: new Date("2025-01-01T00:00:03Z"),
+        }),
+      });
+
+      // Then
+      expect(mockTimer.delay).toHaveBeenCalledWith(3000);
+    });
+
+    it("should not retry when the decision says so", async () => {
+      // Given
+      const fn = vi.fn(async () => {
+        throw new Error("Forbidden");
+      });
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 3,
+          retryOnError: () => ({ retry: false, delay: 1000 }),
+        })
+      ).rejects.toThrow("Forbidden");
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should mix decided and computed delays in the report", async () => {
+      // Given
+      const onComplete = vi.fn();
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        throw attempts === 2 ? new RateLimitError(3000) : new Error("Failed");
+      });
+
+      // When
+      await expect(
+        service.retry(fn, {
+          retries: 3,
+          delay: 100,
+          retryOnError: (error) =>
+            error instanceof RateLimitError
+              ? { retry: true, delay: error.retryAfterMs }
+              : { retry: true },
+          onComplete,
+        })
+      ).rejects.toThrow(RetryAttemptsExceededError);
+
+      // Then
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delays: [100, 3000, 100],
+          delaySources: ["backoff", "decision", "backoff"],
+        })
+      );
+    });
+  });
+
   describe("conditional retry behavior", () => {
     it("should only retry on recoverable errors", async () => {
       // Given
@@ -735,8 +1124,25 @@ describe("RetryService", () => {
 
     it.each([
       { name: "negative retries", options: { retries: -5 } },
+      { name: "NaN retries", options: { retries: NaN } },
+      { name: "infinite retries", options: { retries: Infinity } },
+      { name: "fractional retries", options: { retries: 1.5 } },
       { name: "negative delay", options: { retries: 3, delay: -100 } },
       { name: "invalid timeout", options: { retries: 3, timeout: 0 } },
+      { name: "negative minDelay", options: { retries: 3, minDelay: -1 } },
+      { name: "negative maxDelay", options: { retries: 3, maxDelay: -1 } },
+      {
+        name: "strict timeout without timeout",
+        options: { retries: 3, strictTimeout: true },
+      },
+      {
+        name: "invalid attempt timeout",
+        options: { retries: 3, attemptTimeout: 0 },
+      },
+      {
+        name: "minDelay above maxDelay",
+        options: { retries: 3, minDelay: 500, maxDelay: 100 },
+      },
       {
         name: "negative sanitization threshold",
         options: { retries: 3, sanitizationThreshold: -10 },
@@ -844,31 +1250,1734 @@ describe("RetryService", () => {
     });
   });
 
-  describe("log sanitization", () => {
-    let onComplete: ReturnType<typeof vi.fn>;
+  describe("strict timeout", () => {
+    let time: number;
 
     beforeEach(() => {
-      onComplete = vi.fn();
+      time = 0;
+      mockTimer.now.mockImplementation(() => time);
+      // Backoff delays advance the clock, deadline timers never fire
+      mockTimer.delay.mockImplementation(
+        async (ms: number, signal?: AbortSignal) => {
+          if (signal) {
+            return new Promise<void>(() => {});
+          }
+          time += ms;
+        }
+      );
     });
 
-    const retryWithValue = async (
-      value: unknown,
-      options = {}
-    ): Promise<RetryReport> => {
-      onComplete.mockClear(); // Clear previous calls
+    it("should reject a running attempt as soon as the deadline passes", async () => {
+      // Given
+      const onComplete = vi.fn();
+      mockTimer.delay.mockImplementation(
+        () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+      );
+      let attemptSignal: AbortSignal | undefined;
+      const hangingFn = vi.fn(({ signal }: { signal: AbortSignal }) => {
+        attemptSignal = signal;
+        return new Promise<string>(() => {});
+      });
 
-      await service
-        .retry(async () => value, {
-          retries: 1,
-          retryOnResult: () => true,
+      // When/Then
+      await expect(
+        service.retry(hangingFn, {
+          retries: 3,
+          timeout: 100,
+          strictTimeout: true,
           onComplete,
-          ...options,
         })
-        .catch(() => {
-          /* expected error */
-        });
+      ).rejects.toThrow(RetryTimeoutError);
+      expect(hangingFn).toHaveBeenCalledTimes(1);
+      expect(mockTimer.delay).toHaveBeenCalledWith(100, expect.any(Object));
+      expect(attemptSignal?.reason).toBeInstanceOf(RetryTimeoutError);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ timedOut: true, attempts: 1, errors: [] })
+      );
+    });
 
-      return onComplete.mock.calls[0]?.[0] as RetryReport;
+    it("should give up instead of waiting for a delay past the deadline", async () => {
+      // Given
+      const originalError = new Error("Slow failure");
+      const fn = vi.fn(async () => {
+        time += 60;
+        throw originalError;
+      });
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 5,
+          delay: 50,
+          timeout: 100,
+          strictTimeout: true,
+        })
+      ).rejects.toMatchObject({
+        name: "RetryTimeoutError",
+        cause: originalError,
+      });
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(mockTimer.delay).not.toHaveBeenCalledWith(50);
+      expect(time).toBe(60);
+    });
+
+    it("should keep retrying while delays fit within the deadline", async () => {
+      // Given
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        time += 10;
+        if (attempts < 3) {
+          throw new Error("Transient failure");
+        }
+        return "success";
+      });
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 5,
+        delay: 20,
+        timeout: 100,
+        strictTimeout: true,
+      });
+
+      // Then
+      expect(result).toBe("success");
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it("records how much of the budget each phase used", async () => {
+      // Given
+      const onComplete = vi.fn();
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        time += 30;
+        if (attempts === 1) {
+          throw new Error("First attempt fails");
+        }
+        return "success";
+      });
+
+      // When
+      await service.retry(fn, {
+        retries: 1,
+        delay: 20,
+        timeout: 100,
+        strictTimeout: true,
+        onComplete,
+      });
+
+      // Then
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          timeoutPhases: [
+            { phase: "attempt", duration: 30, remaining: 70 },
+            { phase: "delay", duration: 20, remaining: 50 },
+            { phase: "attempt", duration: 30, remaining: 20 },
+          ],
+        })
+      );
+    });
+
+    it("should not record phases without strictTimeout", async () => {
+      // Given
+      const onComplete = vi.fn();
+
+      // When
+      await service.retry(async () => "success", {
+        retries: 0,
+        timeout: 100,
+        onComplete,
+      });
+
+      // Then
+      expect(onComplete.mock.calls[0][0].timeoutPhases).toBeUndefined();
+    });
+  });
+
+  describe("attempt timeout", () => {
+    const hangingPromise = () => new Promise<string>(() => {});
+
+    beforeEach(() => {
+      // Timers fire on the next macrotask, after any settled attempt
+      mockTimer.delay.mockImplementation(
+        () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+      );
+    });
+
+    it("should abandon a hung attempt and retry", async () => {
+      // Given
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        return attempts === 1 ? hangingPromise() : "success";
+      });
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 1,
+        attemptTimeout: 1000,
+      });
+
+      // Then
+      expect(result).toBe("success");
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(mockTimer.delay).toHaveBeenCalledWith(1000, expect.any(Object));
+    });
+
+    it("should record AttemptTimeoutError in the report", async () => {
+      // Given
+      const onComplete = vi.fn();
+
+      // When/Then
+      await expect(
+        service.retry(hangingPromise, {
+          retries: 1,
+          attemptTimeout: 1000,
+          onComplete,
+        })
+      ).rejects.toMatchObject({
+        name: "RetryAttemptsExceededError",
+        cause: expect.any(AttemptTimeoutError),
+      });
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attempts: 2,
+          errors: [
+            expect.any(AttemptTimeoutError),
+            expect.any(AttemptTimeoutError),
+          ],
+        })
+      );
+    });
+
+    it("should let retryOnError decide whether an attempt timeout is retried", async () => {
+      // Given
+      const fn = vi.fn(hangingPromise);
+      const retryOnError = vi.fn(
+        (error: Error) => !(error instanceof AttemptTimeoutError)
+      );
+
+      // When/Then
+      await expect(
+        service.retry(fn, { retries: 3, attemptTimeout: 1000, retryOnError })
+      ).rejects.toThrow(AttemptTimeoutError);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(retryOnError).toHaveBeenCalledWith(
+        expect.any(AttemptTimeoutError)
+      );
+    });
+
+    it("should abort the signal handed to a timed out attempt", async () => {
+      // Given
+      const signals: AbortSignal[] = [];
+      const fn = vi.fn(({ signal }: { signal: AbortSignal }) => {
+        signals.push(signal);
+        return hangingPromise();
+      });
+
+      // When
+      await expect(
+        service.retry(fn, { retries: 0, attemptTimeout: 1000 })
+      ).rejects.toThrow(RetryAttemptsExceededError);
+
+      // Then
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[0].reason).toBeInstanceOf(AttemptTimeoutError);
+    });
+
+    it("should not time out attempts that settle first", async () => {
+      // Given
+      mockTimer.delay.mockImplementation(() => new Promise<void>(() => {}));
+      const fn = vi.fn(async () => "success");
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 0,
+        attemptTimeout: 1000,
+      });
+
+      // Then
+      expect(result).toBe("success");
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should hand every attempt a fresh signal", async () => {
+      // Given
+      const signals: AbortSignal[] = [];
+      let attempts = 0;
+      const fn = vi.fn(async ({ signal }: { signal: AbortSignal }) => {
+        signals.push(signal);
+        attempts += 1;
+        if (attempts === 1) {
+          throw new Error("First attempt fails");
+        }
+        return "success";
+      });
+
+      // When
+      await service.retry(fn, { retries: 1 });
+
+      // Then
+      expect(signals).toHaveLength(2);
+      expect(signals[0]).not.toBe(signals[1]);
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    it("should abort the attempt signal when the operation is aborted", async () => {
+      // Given
+      const controller = new AbortController();
+      let attemptSignal: AbortSignal | undefined;
+      const fn = vi.fn(({ signal }: { signal: AbortSignal }) => {
+        attemptSignal = signal;
+        controller.abort();
+        return hangingPromise();
+      });
+
+      // When
+      await expect(
+        service.retry(fn, { retries: 1, signal: controller.signal })
+      ).rejects.toThrow(RetryAbortedError);
+
+      // Then
+      expect(attemptSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    const alwaysFailing = () =>
+      vi.fn(async () => {
+        throw new Error("Service down");
+      });
+
+    it("should stop retrying once the circuit opens", async () => {
+      // Given
+      const breaker = new CircuitBreaker(
+        { consecutiveFailureThreshold: 2 },
+        mockLogger,
+        mockTimer
+      );
+      const failingFn = alwaysFailing();
+      const onComplete = vi.fn();
+
+      // When/Then
+      await expect(
+        service.retry(failingFn, {
+          retries: 5,
+          circuitBreaker: breaker,
+          onComplete,
+        })
+      ).rejects.toMatchObject({
+        name: "CircuitOpenError",
+        cause: expect.objectContaining({ message: "Service down" }),
+      });
+      expect(failingFn).toHaveBeenCalledTimes(2);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attempts: 2,
+          circuitState: "open",
+          retryingOperationSucceeded: false,
+        })
+      );
+    });
+
+    it("should fail fast without calling the function when the circuit is open", async () => {
+      // Given
+      const breaker = new CircuitBreaker(
+        { consecutiveFailureThreshold: 1 },
+        mockLogger,
+        mockTimer
+      );
+      await expect(
+        service.retry(alwaysFailing(), { retries: 0, circuitBreaker: breaker })
+      ).rejects.toThrow();
+      const fn = vi.fn(async () => "success");
+
+      // When/Then
+      await expect(
+        service.retry(fn, { retries: 3, circuitBreaker: breaker })
+      ).rejects.toThrow(CircuitOpenError);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("reports the circuit state on success", async () => {
+      // Given
+      const breaker = new CircuitBreaker({}, mockLogger, mockTimer);
+      const onComplete = vi.fn();
+
+      // When
+      await service.retry(async () => "success", {
+        retries: 0,
+        circuitBreaker: breaker,
+        onComplete,
+      });
+
+      // Then
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ circuitState: "closed" })
+      );
+    });
+
+    it("should use a half-open probe for the next attempt after the cooldown", async () => {
+      // Given
+      let time = 0;
+      mockTimer.now.mockImplementation(() => time);
+      mockTimer.delay.mockImplementation(async (ms: number) => {
+        time += ms;
+      });
+      const breaker = new CircuitBreaker(
+        { consecutiveFailureThreshold: 1, cooldown: 1000 },
+        mockLogger,
+        mockTimer
+      );
+      await expect(
+        service.retry(alwaysFailing(), { retries: 0, circuitBreaker: breaker })
+      ).rejects.toThrow();
+      time = 1000;
+
+      // When
+      const result = await service.retry(async () => "recovered", {
+        retries: 0,
+        circuitBreaker: breaker,
+      });
+
+      // Then
+      expect(result).toBe("recovered");
+      expect(breaker.state).toBe("closed");
+    });
+  });
+
+  describe("retry budget", () => {
+    beforeEach(() => {
+      mockTimer.now.mockReturnValue(0);
+    });
+
+    const alwaysFailing = () =>
+      vi.fn(async () => {
+        throw new Error("Partial outage");
+      });
+
+    it("should stop retrying when the budget is exhausted", async () => {
+      // Given
+      const budget = new RetryBudget(
+        { minRetriesPerSecond: 0.2, ttl: 10_000 },
+        mockTimer
+      );
+      const failingFn = alwaysFailing();
+      const onComplete = vi.fn();
+
+      // When/Then
+      await expect(
+        service.retry(failingFn, {
+          retries: 5,
+          retryBudget: budget,
+          onComplete,
+        })
+      ).rejects.toMatchObject({
+        name: "RetryBudgetExhaustedError",
+        cause: expect.objectContaining({ message: "Partial outage" }),
+      });
+      expect(failingFn).toHaveBeenCalledTimes(3);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attempts: 3,
+          budgetExhausted: true,
+          retryingOperationSucceeded: false,
+        })
+      );
+    });
+
+    it("should share the budget attached to the service between calls", async () => {
+      // Given
+      const budget = new RetryBudget(
+        { minRetriesPerSecond: 0.1, ttl: 10_000 },
+        mockTimer
+      );
+      const budgetedService = new RetryService(
+        mockLogger,
+        mockTimer,
+        undefined,
+        { retryBudget: budget }
+      );
+      const firstFn = alwaysFailing();
+      const secondFn = alwaysFailing();
+
+      // When
+      await expect(
+        budgetedService.retry(firstFn, { retries: 3 })
+      ).rejects.toThrow(RetryBudgetExhaustedError);
+      await expect(
+        budgetedService.retry(secondFn, { retries: 3 })
+      ).rejects.toThrow(RetryBudgetExhaustedError);
+
+      // Then
+      expect(firstFn).toHaveBeenCalledTimes(2);
+      expect(secondFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refill the budget with successful calls", async () => {
+      // Given
+      const budget = new RetryBudget(
+        { minRetriesPerSecond: 0, depositRatio: 0.5 },
+        mockTimer
+      );
+      await service.retry(async () => "success", {
+        retries: 0,
+        retryBudget: budget,
+      });
+      await service.retry(async () => "success", {
+        retries: 0,
+        retryBudget: budget,
+      });
+      const failingFn = alwaysFailing();
+
+      // When
+      await expect(
+        service.retry(failingFn, { retries: 3, retryBudget: budget })
+      ).rejects.toThrow(RetryBudgetExhaustedError);
+
+      // Then
+      expect(failingFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("lifecycle hooks", () => {
+    const failTwiceThenSucceed = () => {
+      let attempts = 0;
+      return vi.fn(async () => {
+        attempts += 1;
+        if (attempts <= 2) {
+          throw new Error(`Attempt ${attempts} failed`);
+        }
+        return "success";
+      });
+    };
+
+    beforeEach(() => {
+      mockTimer.now.mockReturnValue(1000);
+    });
+
+    it("should call the hooks in order around every attempt", async () => {
+      // Given
+      const calls: string[] = [];
+      const fn = failTwiceThenSucceed();
+
+      // When
+      await service.retry(fn, {
+        retries: 3,
+        delay: 50,
+        beforeAttempt: ({ attempt }) => {
+          calls.push(`before ${attempt}`);
+        },
+        afterAttempt: ({ attempt }, outcome) => {
+          calls.push(`after ${attempt}: ${outcome.status}`);
+        },
+        onRetry: (_reason, nextDelay, { attempt }) => {
+          calls.push(`retry after ${attempt} in ${nextDelay}ms`);
+        },
+      });
+
+      // Then
+      expect(calls).toEqual([
+        "before 1",
+        "after 1: error",
+        "retry after 1 in 50ms",
+        "before 2",
+        "after 2: error",
+        "retry after 2 in 50ms",
+        "before 3",
+        "after 3: result",
+      ]);
+    });
+
+    it("should hand the attempt context to the hooks", async () => {
+      // Given
+      const beforeAttempt = vi.fn();
+
+      // When
+      await service.retry(failTwiceThenSucceed(), {
+        retries: 5,
+        beforeAttempt,
+      });
+
+      // Then
+      expect(beforeAttempt).toHaveBeenNthCalledWith(1, {
+        attempt: 1,
+        retriesLeft: 5,
+        startTime: 1000,
+      });
+      expect(beforeAttempt).toHaveBeenNthCalledWith(3, {
+        attempt: 3,
+        retriesLeft: 3,
+        startTime: 1000,
+      });
+    });
+
+    it("should hand the outcome to afterAttempt", async () => {
+      // Given
+      const afterAttempt = vi.fn();
+
+      // When
+      await service.retry(failTwiceThenSucceed(), {
+        retries: 3,
+        afterAttempt,
+      });
+
+      // Then
+      expect(afterAttempt).toHaveBeenNthCalledWith(1, expect.any(Object), {
+        status: "error",
+        error: expect.objectContaining({ message: "Attempt 1 failed" }),
+      });
+      expect(afterAttempt).toHaveBeenNthCalledWith(3, expect.any(Object), {
+        status: "result",
+        result: "success",
+      });
+    });
+
+    it("should hand the triggering error or result to onRetry", async () => {
+      // Given
+      const onRetry = vi.fn();
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        if (attempts === 1) {
+          throw new Error("Transient");
+        }
+        return { status: attempts === 2 ? "pending" : "done" };
+      });
+
+      // When
+      await service.retry(fn, {
+        retries: 3,
+        delay: 10,
+        retryOnResult: (result) => result.status === "pending",
+        onRetry,
+      });
+
+      // Then
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ message: "Transient" }),
+        10,
+        expect.objectContaining({ attempt: 1 })
+      );
+      expect(onRetry).toHaveBeenNthCalledWith(
+        2,
+        { status: "pending" },
+        10,
+        expect.objectContaining({ attempt: 2 })
+      );
+    });
+
+    it("should await async hooks before the next attempt", async () => {
+      // Given
+      let token = "expired";
+      const fn = vi.fn(async () => {
+        if (token === "expired") {
+          throw new Error("Unauthorized");
+        }
+        return `called with ${token}`;
+      });
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 1,
+        onRetry: async () => {
+          await Promise.resolve();
+          token = "fresh";
+        },
+      });
+
+      // Then
+      expect(result).toBe("called with fresh");
+    });
+
+    it("should call onGiveUp with the final report when the operation fails", async () => {
+      // Given
+      const onGiveUp = vi.fn();
+      const fn = vi.fn(async () => {
+        throw new Error("Always fails");
+      });
+
+      // When
+      await expect(service.retry(fn, { retries: 2, onGiveUp })).rejects.toThrow(
+        RetryAttemptsExceededError
+      );
+
+      // Then
+      expect(onGiveUp).toHaveBeenCalledTimes(1);
+      expect(onGiveUp).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attempts: 3,
+          retryingOperationSucceeded: false,
+        })
+      );
+    });
+
+    it("should not call onGiveUp on success or abort", async () => {
+      // Given
+      const onGiveUp = vi.fn();
+      const controller = new AbortController();
+      controller.abort();
+
+      // When
+      await service.retry(async () => "success", { retries: 0, onGiveUp });
+      await expect(
+        service.retry(async () => "success", {
+          retries: 0,
+          signal: controller.signal,
+          onGiveUp,
+        })
+      ).rejects.toThrow(RetryAbortedError);
+
+      // Then
+      expect(onGiveUp).not.toHaveBeenCalled();
+    });
+
+    it("should end the operation with a RetryHookError when a hook throws", async () => {
+      // Given
+      const onComplete = vi.fn();
+      const hookFailure = new Error("Token refresh failed");
+      const fn = failTwiceThenSucceed();
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 3,
+          onRetry: () => {
+            throw hookFailure;
+          },
+          onComplete,
+        })
+      ).rejects.toMatchObject({
+        name: "RetryHookError",
+        hook: "onRetry",
+        cause: hookFailure,
+      });
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attempts: 1,
+          retryingOperationSucceeded: false,
+          errors: [
+            expect.objectContaining({ message: "Attempt 1 failed" }),
+            expect.any(RetryHookError),
+          ],
+        })
+      );
+    });
+
+    it("should not call the function when beforeAttempt throws", async () => {
+      // Given
+      const fn = vi.fn(async () => "success");
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 3,
+          beforeAttempt: async () => {
+            throw new Error("Connection reset failed");
+          },
+        })
+      ).rejects.toMatchObject({
+        name: "RetryHookError",
+        hook: "beforeAttempt",
+      });
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should not retry when afterAttempt throws", async () => {
+      // Given
+      const fn = failTwiceThenSucceed();
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 3,
+          afterAttempt: () => {
+            throw new Error("Bookkeeping failed");
+          },
+        })
+      ).rejects.toThrow(RetryHookError);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should log and ignore errors thrown by onGiveUp", async () => {
+      // Given
+      const fn = vi.fn(async () => {
+        throw new Error("Always fails");
+      });
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 0,
+          onGiveUp: () => {
+            throw new Error("Alerting failed");
+          },
+        })
+      ).rejects.toThrow(RetryAttemptsExceededError);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "onGiveUp hook failed: Alerting failed"
+      );
+    });
+  });
+
+  describe("async predicates", () => {
+    it("should await an async retryOnError before retrying", async () => {
+      // Given
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Transient failure"))
+        .mockResolvedValueOnce("success");
+      const retryOnError = vi.fn(async () => true);
+
+      // When
+      const result = await service.retry(fn, { retries: 2, retryOnError });
+
+      // Then
+      expect(result).toBe("success");
+      expect(retryOnError).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry when an async retryOnError resolves to false", async () => {
+      // Given
+      const error = new Error("Permanent failure");
+      const fn = vi.fn().mockRejectedValue(error);
+
+      // When/Then
+      await expect(
+        service.retry(fn, { retries: 3, retryOnError: async () => false })
+      ).rejects.toBe(error);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should use the delay of an async RetryDecision", async () => {
+      // Given
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Rate limited"))
+        .mockResolvedValueOnce("success");
+
+      // When
+      await service.retry(fn, {
+        retries: 1,
+        delay: 100,
+        retryOnError: async () => ({ retry: true, delay: 2500 }),
+      });
+
+      // Then
+      expect(mockTimer.delay).toHaveBeenCalledWith(2500);
+    });
+
+    it("should await an async retryOnResult", async () => {
+      // Given
+      const fn = vi
+        .fn()
+        .mockResolvedValueOnce("pending")
+        .mockResolvedValueOnce("done");
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 2,
+        retryOnResult: async (value: string) => value === "pending",
+      });
+
+      // Then
+      expect(result).toBe("done");
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should end with a RetryPredicateError when retryOnError throws", async () => {
+      // Given
+      const cause = new Error("Lookup failed");
+      const fn = vi.fn().mockRejectedValue(new Error("Transient failure"));
+      const onComplete = vi.fn();
+
+      // When
+      const promise = service.retry(fn, {
+        retries: 3,
+        retryOnError: async () => {
+          throw cause;
+        },
+        onComplete,
+      });
+
+      // Then
+      await expect(promise).rejects.toBeInstanceOf(RetryPredicateError);
+      await expect(promise).rejects.toMatchObject({
+        predicate: "retryOnError",
+        cause,
+      });
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ retryingOperationSucceeded: false })
+      );
+    });
+
+    it("should end with a RetryPredicateError when retryOnResult throws", async () => {
+      // Given
+      const fn = vi.fn().mockResolvedValue("value");
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 3,
+          retryOnResult: () => {
+            throw new Error("Bad predicate");
+          },
+        })
+      ).rejects.toMatchObject({
+        name: "RetryPredicateError",
+        predicate: "retryOnResult",
+      });
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should time out a slow predicate under a strict timeout", async () => {
+      // Given
+      let now = 0;
+      mockTimer.now.mockImplementation(() => now);
+      mockTimer.delay.mockImplementation(
+        (ms: number) =>
+          new Promise<void>((resolve) =>
+            setTimeout(() => {
+              now += ms;
+              resolve();
+            }, 0)
+          )
+      );
+      const fn = vi.fn().mockRejectedValue(new Error("Transient failure"));
+      const onComplete = vi.fn();
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 3,
+          timeout: 1000,
+          strictTimeout: true,
+          retryOnError: () => new Promise<boolean>(() => {}),
+          onComplete,
+        })
+      ).rejects.toThrow(RetryTimeoutError);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ timedOut: true })
+      );
+    });
+
+    it("should stop waiting for a predicate when aborted", async () => {
+      // Given
+      const controller = new AbortController();
+      const fn = vi.fn().mockRejectedValue(new Error("Transient failure"));
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 3,
+          signal: controller.signal,
+          retryOnError: () =>
+            new Promise<boolean>(() => {
+              controller.abort();
+            }),
+        })
+      ).rejects.toThrow(RetryAbortedError);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("attempt context", () => {
+    it("should pass the attempt number and retries left to the function", async () => {
+      // Given
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Transient failure"))
+        .mockResolvedValueOnce("success");
+
+      // When
+      await service.retry(fn, { retries: 2 });
+
+      // Then
+      expect(fn).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ attempt: 1, retriesLeft: 2 })
+      );
+      expect(fn).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ attempt: 2, retriesLeft: 1 })
+      );
+    });
+
+    it("should pass the previous error to the next attempt", async () => {
+      // Given
+      const error = new Error("Transient failure");
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(error)
+        .mockResolvedValueOnce("success");
+
+      // When
+      await service.retry(fn, { retries: 1 });
+
+      // Then
+      expect(fn.mock.calls[0][0].previousOutcome).toBeUndefined();
+      expect(fn.mock.calls[1][0].previousOutcome).toEqual({
+        status: "error",
+        error,
+      });
+    });
+
+    it("should pass the previous result to the next attempt", async () => {
+      // Given
+      const fn = vi
+        .fn()
+        .mockResolvedValueOnce("pending")
+        .mockResolvedValueOnce("done");
+
+      // When
+      await service.retry(fn, {
+        retries: 1,
+        retryOnResult: (result: string) => result === "pending",
+      });
+
+      // Then
+      expect(fn.mock.calls[1][0].previousOutcome).toEqual({
+        status: "result",
+        result: "pending",
+      });
+    });
+
+    it("should pass the time left until the timeout", async () => {
+      // Given
+      mockTimer.now
+        .mockReturnValueOnce(1000) // Start
+        .mockReturnValueOnce(1000) // Timeout check
+        .mockReturnValue(1300);
+      const fn = vi.fn(async () => "success");
+
+      // When
+      await service.retry(fn, { retries: 0, timeout: 1000 });
+
+      // Then
+      expect(fn).toHaveBeenCalledWith(
+        expect.objectContaining({ remainingTime: 700 })
+      );
+    });
+
+    it("should pass null as the time left when no timeout is set", async () => {
+      // Given
+      const fn = vi.fn(async () => "success");
+
+      // When
+      await service.retry(fn, { retries: 0 });
+
+      // Then
+      expect(fn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          remainingTime: null,
+          signal: expect.any(AbortSignal),
+        })
+      );
+    });
+  });
+
+  describe("fallback", () => {
+    it("should return a static fallback value when retries are exhausted", async () => {
+      // Given
+      const fn = vi.fn().mockRejectedValue(new Error("Service unavailable"));
+      const onComplete = vi.fn();
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 2,
+        fallback: "cached",
+        onComplete,
+      });
+
+      // Then
+      expect(result).toBe("cached");
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          retryingOperationSucceeded: false,
+          fallbackUsed: true,
+        })
+      );
+    });
+
+    it("should pass the final error and report to a fallback function", async () => {
+      // Given
+      const fn = vi.fn().mockRejectedValue(new Error("Service unavailable"));
+      const fallback = vi.fn(async () => "degraded");
+
+      // When
+      const result = await service.retry(fn, { retries: 1, fallback });
+
+      // Then
+      expect(result).toBe("degraded");
+      expect(fallback).toHaveBeenCalledWith(
+        expect.any(RetryAttemptsExceededError),
+        expect.objectContaining({
+          attempts: 2,
+          retryingOperationSucceeded: false,
+        })
+      );
+    });
+
+    it("should use the fallback for non-retryable errors", async () => {
+      // Given
+      const error = new Error("Not found");
+      const fallback = vi.fn(() => "default");
+
+      // When
+      const result = await service.retry(vi.fn().mockRejectedValue(error), {
+        retries: 3,
+        retryOnError: () => false,
+        fallback,
+      });
+
+      // Then
+      expect(result).toBe("default");
+      expect(fallback).toHaveBeenCalledWith(error, expect.anything());
+    });
+
+    it("should use the fallback when the operation times out", async () => {
+      // Given
+      mockTimer.now.mockReturnValueOnce(0).mockReturnValue(2000);
+
+      // When
+      const result = await service.retry(async () => "late", {
+        retries: 3,
+        timeout: 1000,
+        fallback: (error: unknown) =>
+          error instanceof RetryTimeoutError ? "timed out" : "other",
+      });
+
+      // Then
+      expect(result).toBe("timed out");
+    });
+
+    it("should throw the original error when the fallback throws", async () => {
+      // Given
+      const error = new Error("Not found");
+
+      // When/Then
+      await expect(
+        service.retry(vi.fn().mockRejectedValue(error), {
+          retries: 0,
+          retryOnError: () => false,
+          fallback: () => {
+            throw new Error("Cache miss");
+          },
+        })
+      ).rejects.toBe(error);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "Fallback failed: Cache miss"
+      );
+    });
+
+    it("should not use the fallback when the operation is aborted", async () => {
+      // Given
+      const controller = new AbortController();
+      controller.abort();
+      const fallback = vi.fn(() => "cached");
+
+      // When/Then
+      await expect(
+        service.retry(async () => "success", {
+          retries: 3,
+          signal: controller.signal,
+          fallback,
+        })
+      ).rejects.toThrow(RetryAbortedError);
+      expect(fallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("retryAsPayload", () => {
+    it("should resolve to an ok payload on success", async () => {
+      // Given
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Transient failure"))
+        .mockResolvedValueOnce("success");
+
+      // When
+      const payload = await service.retryAsPayload(fn, { retries: 1 });
+
+      // Then
+      expect(payload).toEqual({ data: "success", error: null });
+    });
+
+    it("should resolve to an error payload with the final error and report", async () => {
+      // Given
+      const error = new Error("Service unavailable");
+      const onComplete = vi.fn();
+
+      // When
+      const payload = await service.retryAsPayload(
+        vi.fn().mockRejectedValue(error),
+        { retries: 2, onComplete }
+      );
+
+      // Then
+      expect(payload.data).toBeNull();
+      expect(payload.error?.error).toBeInstanceOf(RetryAttemptsExceededError);
+      expect(payload.error?.error).toMatchObject({ cause: error });
+      expect(payload.error?.report).toEqual(
+        expect.objectContaining({
+          attempts: 3,
+          retryingOperationSucceeded: false,
+        })
+      );
+      expect(onComplete).toHaveBeenCalledWith(payload.error?.report);
+    });
+
+    it("should keep a non-retryable error as it was thrown", async () => {
+      // Given
+      const error = new TypeError("Invalid input");
+
+      // When
+      const payload = await service.retryAsPayload<string, TypeError>(
+        vi.fn().mockRejectedValue(error),
+        { retries: 3, retryOnError: () => false }
+      );
+
+      // Then
+      expect(payload.error?.error).toBe(error);
+    });
+
+    it("should resolve to an error payload for invalid options", async () => {
+      // Given
+      mockTimer.now.mockReturnValue(1000);
+      const fn = vi.fn(async () => "success");
+
+      // When
+      const payload = await service.retryAsPayload(fn, { retries: -1 });
+
+      // Then
+      expect(payload.error?.error).toBeInstanceOf(RetryConfigurationError);
+      expect(payload.error?.report).toEqual(
+        expect.objectContaining({
+          attempts: 0,
+          retryingOperationSucceeded: false,
+        })
+      );
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("payload-aware mode", () => {
+    it("should retry error payloads and return the ok payload", async () => {
+      // Given
+      const fn = vi
+        .fn()
+        .mockResolvedValueOnce(
+          DataErrorPayloadUtil.createErr(new Error("Transient failure"))
+        )
+        .mockResolvedValueOnce(DataErrorPayloadUtil.create("success"));
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 2,
+        payloadAware: true,
+      });
+
+      // Then
+      expect(result).toEqual({ data: "success", error: null });
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return the last error payload when retries are exhausted", async () => {
+      // Given
+      const firstError = new Error("First failure");
+      const lastError = new Error("Last failure");
+      const lastPayload = DataErrorPayloadUtil.createErr(lastError);
+      const fn = vi
+        .fn()
+        .mockResolvedValueOnce(DataErrorPayloadUtil.createErr(firstError))
+        .mockResolvedValueOnce(lastPayload);
+      const onComplete = vi.fn();
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 1,
+        payloadAware: true,
+        onComplete,
+      });
+
+      // Then
+      expect(result).toBe(lastPayload);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attempts: 2,
+          errors: [firstError, lastError],
+          retryingOperationSucceeded: false,
+        })
+      );
+    });
+
+    it("should classify the payload's error with retryOnError", async () => {
+      // Given
+      const notFound = new Error("Not found");
+      const payload = DataErrorPayloadUtil.createErr(notFound);
+      const fn = vi.fn().mockResolvedValue(payload);
+      const retryOnError = vi.fn(() => false);
+      const retryOnResult = vi.fn(() => true);
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 3,
+        payloadAware: true,
+        retryOnError,
+        retryOnResult,
+      });
+
+      // Then
+      expect(result).toBe(payload);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(retryOnError).toHaveBeenCalledWith(notFound);
+      expect(retryOnResult).not.toHaveBeenCalled();
+    });
+
+    it("should record error payloads as circuit breaker failures", async () => {
+      // Given
+      const breaker = new CircuitBreaker(
+        { consecutiveFailureThreshold: 2 },
+        mockLogger,
+        mockTimer
+      );
+      const fn = vi
+        .fn()
+        .mockResolvedValue(
+          DataErrorPayloadUtil.createErr(new Error("Service unavailable"))
+        );
+
+      // When
+      await service.retry(fn, {
+        retries: 1,
+        payloadAware: true,
+        circuitBreaker: breaker,
+      });
+
+      // Then
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should treat error payloads as results when not payload-aware", async () => {
+      // Given
+      const payload = DataErrorPayloadUtil.createErr(new Error("Failure"));
+      const fn = vi.fn().mockResolvedValue(payload);
+
+      // When
+      const result = await service.retry(fn, { retries: 3 });
+
+      // Then
+      expect(result).toBe(payload);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("bulkhead", () => {
+    it("should run every attempt in a bulkhead slot", async () => {
+      // Given
+      const bulkhead = new Bulkhead(
+        { maxConcurrent: 1 },
+        mockLogger,
+        mockTimer
+      );
+      const activeDuringAttempts: number[] = [];
+      const fn = vi.fn(async () => {
+        activeDuringAttempts.push(bulkhead.active);
+        if (activeDuringAttempts.length < 2) {
+          throw new Error("Transient failure");
+        }
+        return "success";
+      });
+
+      // When
+      const result = await service.retry(fn, { retries: 1, bulkhead });
+
+      // Then
+      expect(result).toBe("success");
+      expect(activeDuringAttempts).toEqual([1, 1]);
+      expect(bulkhead.active).toBe(0);
+    });
+
+    it("should fail with a BulkheadFullError when the bulkhead is full", async () => {
+      // Given
+      const bulkhead = new Bulkhead(
+        { maxConcurrent: 1 },
+        mockLogger,
+        mockTimer
+      );
+      await bulkhead.acquire();
+      const fn = vi.fn(async () => "success");
+      const onComplete = vi.fn();
+
+      // When/Then
+      await expect(
+        service.retry(fn, { retries: 3, bulkhead, onComplete })
+      ).rejects.toThrow(BulkheadFullError);
+      expect(fn).not.toHaveBeenCalled();
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ retryingOperationSucceeded: false })
+      );
+    });
+
+    it("should record the time spent waiting for a slot", async () => {
+      // Given
+      let now = 0;
+      mockTimer.now.mockImplementation(() => now);
+      const bulkhead = new Bulkhead(
+        { maxConcurrent: 1, maxQueue: 1 },
+        mockLogger,
+        mockTimer
+      );
+      await bulkhead.acquire();
+      const onComplete = vi.fn();
+
+      // When
+      const pending = service.retry(async () => "success", {
+        retries: 0,
+        bulkhead,
+        onComplete,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      now = 250;
+      bulkhead.release();
+      await pending;
+
+      // Then
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ queueTime: 250 })
+      );
+      expect(bulkhead.active).toBe(0);
+    });
+
+    it("should time out waiting for a slot under a strict timeout", async () => {
+      // Given
+      let now = 0;
+      mockTimer.now.mockImplementation(() => now);
+      mockTimer.delay.mockImplementation(
+        (ms: number) =>
+          new Promise<void>((resolve) =>
+            setTimeout(() => {
+              now += ms;
+              resolve();
+            }, 0)
+          )
+      );
+      const bulkhead = new Bulkhead(
+        { maxConcurrent: 1, maxQueue: 1 },
+        mockLogger,
+        mockTimer
+      );
+      await bulkhead.acquire();
+      const onComplete = vi.fn();
+
+      // When/Then
+      await expect(
+        service.retry(async () => "success", {
+          retries: 3,
+          timeout: 1000,
+          strictTimeout: true,
+          bulkhead,
+          onComplete,
+        })
+      ).rejects.toThrow(RetryTimeoutError);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ attempts: 1, timedOut: true })
+      );
+      expect(bulkhead.queued).toBe(0);
+    });
+
+    it("should stop waiting for a slot when aborted", async () => {
+      // Given
+      const controller = new AbortController();
+      const bulkhead = new Bulkhead(
+        { maxConcurrent: 1, maxQueue: 1 },
+        mockLogger,
+        mockTimer
+      );
+      await bulkhead.acquire();
+      const fn = vi.fn(async () => "success");
+
+      // When
+      const pending = service.retry(fn, {
+        retries: 0,
+        bulkhead,
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      // Then
+      await expect(pending).rejects.toThrow(RetryAbortedError);
+      expect(fn).not.toHaveBeenCalled();
+      expect(bulkhead.queued).toBe(0);
+    });
+
+    it("should keep the slot taken until an aborted attempt settles", async () => {
+      // Given
+      const controller = new AbortController();
+      const bulkhead = new Bulkhead(
+        { maxConcurrent: 1, maxQueue: 1 },
+        mockLogger,
+        mockTimer
+      );
+      let finishAttempt: () => void = () => {};
+      const fn = vi.fn(
+        () =>
+          new Promise<string>((resolve) => {
+            finishAttempt = () => resolve("success");
+          })
+      );
+
+      // When
+      const pending = service.retry(fn, {
+        retries: 0,
+        bulkhead,
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      controller.abort();
+
+      // Then
+      await expect(pending).rejects.toThrow(RetryAbortedError);
+      expect(bulkhead.active).toBe(1);
+      finishAttempt();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(bulkhead.active).toBe(0);
+    });
+  });
+
+  describe("rate limiter", () => {
+    it("should wait for a permit before every attempt", async () => {
+      // Given
+      mockTimer.now.mockReturnValue(0);
+      const rateLimiter = new RateLimiter(
+        { limit: 1, interval: 1000 },
+        mockLogger,
+        mockTimer
+      );
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Transient failure"))
+        .mockResolvedValueOnce("success");
+      const onComplete = vi.fn();
+
+      // When
+      const result = await service.retry(fn, {
+        retries: 1,
+        delay: 100,
+        rateLimiter,
+        onComplete,
+      });
+
+      // Then
+      expect(result).toBe("success");
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(1, 100);
+      expect(mockTimer.delay).toHaveBeenNthCalledWith(2, 1000);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ delays: [100], rateLimitWait: 1000 })
+      );
+    });
+
+    it("should fail fast when waiting for a permit would pass the timeout", async () => {
+      // Given
+      mockTimer.now.mockReturnValue(0);
+      const rateLimiter = new RateLimiter(
+        { limit: 1, interval: 60000 },
+        mockLogger,
+        mockTimer
+      );
+      rateLimiter.tryReserve();
+      const fn = vi.fn(async () => "success");
+
+      // When/Then
+      await expect(
+        service.retry(fn, { retries: 3, timeout: 5000, rateLimiter })
+      ).rejects.toThrow(RetryTimeoutError);
+      expect(fn).not.toHaveBeenCalled();
+      expect(mockTimer.delay).not.toHaveBeenCalled();
+    });
+
+    it("should stop waiting for a permit when aborted", async () => {
+      // Given
+      mockTimer.now.mockReturnValue(0);
+      const controller = new AbortController();
+      const rateLimiter = new RateLimiter({ limit: 1 }, mockLogger, mockTimer);
+      rateLimiter.tryReserve();
+      mockTimer.delay.mockImplementation(() => {
+        controller.abort();
+        return new Promise<void>(() => {});
+      });
+      const fn = vi.fn(async () => "success");
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 0,
+          rateLimiter,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow(RetryAbortedError);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should not call the function when the signal is already aborted", async () => {
+      // Given
+      const controller = new AbortController();
+      controller.abort();
+      const fn = vi.fn(async () => "success");
+
+      // When/Then
+      await expect(
+        service.retry(fn, { retries: 3, signal: controller.signal })
+      ).rejects.toThrow(RetryAbortedError);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should reject immediately when aborted while the function is running", async () => {
+      // Given
+      const controller = new AbortController();
+      const hangingFn = vi.fn(
+        () =>
+          new Promise<string>(() => {
+            controller.abort();
+          })
+      );
+
+      // When/Then
+      await expect(
+        service.retry(hangingFn, { retries: 3, signal: controller.signal })
+      ).rejects.toThrow(RetryAbortedError);
+      expect(hangingFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop retrying when aborted during a delay", async () => {
+      // Given
+      const controller = new AbortController();
+      mockTimer.delay.mockImplementation(() => {
+        controller.abort();
+        return new Promise<void>(() => {});
+      });
+      const failingFn = vi.fn(async () => {
+        throw new Error("Transient failure");
+      });
+
+      // When/Then
+      await expect(
+        service.retry(failingFn, {
+          retries: 3,
+          delay: 1000,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow(RetryAbortedError);
+      expect(failingFn).toHaveBeenCalledTimes(1);
+      expect(mockTimer.delay).toHaveBeenCalledWith(1000, controller.signal);
+    });
+
+    it("should keep the abort reason as the cause", async () => {
+      // Given
+      const controller = new AbortController();
+      const reason = new Error("User navigated away");
+      controller.abort(reason);
+
+      // When/Then
+      await expect(
+        service.retry(async () => "success", {
+          retries: 0,
+          signal: controller.signal,
+        })
+      ).rejects.toMatchObject({ name: "RetryAbortedError", cause: reason });
+    });
+
+    it("should not retry the error thrown by an aborted function", async () => {
+      // Given
+      const controller = new AbortController();
+      const abortingFn = vi.fn(async () => {
+        controller.abort();
+        throw new Error("Request cancelled");
+      });
+      const retryOnError = vi.fn(() => true);
+
+      // When/Then
+      await expect(
+        service.retry(abortingFn, {
+          retries: 3,
+          retryOnError,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow(RetryAbortedError);
+      expect(abortingFn).toHaveBeenCalledTimes(1);
+      expect(retryOnError).not.toHaveBeenCalled();
+    });
+
+    it("reports an aborted operation through onComplete", async () => {
+      // Given
+      const onComplete = vi.fn();
+      const controller = new AbortController();
+      let attempts = 0;
+      const fn = vi.fn(async () => {
+        attempts += 1;
+        if (attempts === 2) {
+          controller.abort();
+        }
+        throw new Error(`Attempt ${attempts} failed`);
+      });
+
+      // When/Then
+      await expect(
+        service.retry(fn, {
+          retries: 5,
+          signal: controller.signal,
+          onComplete,
+        })
+      ).rejects.toThrow(RetryAbortedError);
+
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          aborted: true,
+          attempts: 2,
+          retryingOperationSucceeded: false,
+          errors: [expect.objectContaining({ message: "Attempt 1 failed" })],
+        })
+      );
+    });
+  });
+
+  describe("log sanitization", () => {
+    let onComplete: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      onComplete = vi.fn();
+    });
+
+    const retryWithValue = async (
+      value: unknown,
+      options = {}
+    ): Promise<RetryReport> => {
+      onComplete.mockClear(); // Clear previous calls
+
+      await service
+        .retry(async () => value, {
+          retries: 1,
+          retryOnResult: () => true,
+          onComplete,
+          ...options,
+        })
+        .catch(() => {
+          /* expected error */
+        });
+
+      return onComplete.mock.calls[0]?.[0] as RetryReport;
     };
 
     const createObjectWithProperties = (
@@ -1080,6 +3189,51 @@ describe("RetryService", () => {
       expect(actualDelay).toBeGreaterThanOrEqual(1);
     });
 
+    it("delay should resolve early when the signal aborts", async () => {
+      // Given
+      const defaultTimer = getDefaultTimer();
+      const controller = new AbortController();
+      const pendingDelay = defaultTimer.delay(60_000, controller.signal);
+
+      // When
+      controller.abort();
+
+      // Then
+      await expect(pendingDelay).resolves.toBeUndefined();
+    });
+
+    it("delay should resolve right away when the signal already aborted", async () => {
+      // Given
+      const defaultTimer = getDefaultTimer();
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+
+      // When
+      await defaultTimer.delay(60_000, AbortSignal.abort());
+
+      // Then
+      expect(setTimeoutSpy).not.toHaveBeenCalled();
+      setTimeoutSpy.mockRestore();
+    });
+
+    it("delay should wait no longer than setTimeout supports", async () => {
+      // Given
+      const defaultTimer = getDefaultTimer();
+      const controller = new AbortController();
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+
+      // When
+      const pendingDelay = defaultTimer.delay(3_000_000_000, controller.signal);
+      controller.abort();
+      await pendingDelay;
+
+      // Then
+      expect(setTimeoutSpy).toHaveBeenCalledWith(
+        expect.any(Function),
+        2 ** 31 - 1
+      );
+      setTimeoutSpy.mockRestore();
+    });
+
     it("now should return the current timestamp", () => {
       // Given
       const defaultTimer = getDefaultTimer();
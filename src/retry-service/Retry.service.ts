@@ -1,5 +1,33 @@
 import { logger } from "../logger-service/Logger.service";
 import type { LogHandler } from "../logger-service/Logger.service";
+import { Backoff } from "./Backoff.strategies";
+import type { BackoffStrategy } from "./Backoff.strategies";
+import type {
+  CircuitBreaker,
+  CircuitPermission,
+  CircuitState,
+} from "../circuit-breaker-service/CircuitBreaker.service";
+import type { RetryBudget } from "../retry-budget-service/RetryBudget.service";
+import type { Bulkhead } from "../bulkhead-service/Bulkhead.service";
+import type { RateLimiter } from "../rate-limiter-service/RateLimiter.service";
+import type { RetryMetrics } from "../retry-metrics-service/RetryMetrics.service";
+import { retryPolicies } from "./Retry.registry";
+import type { RetryPolicyRegistry } from "./Retry.registry";
+import { RetryOptionsValidator } from "./Retry.validator";
+import { hedge } from "./Retry.hedge";
+import type { HedgeOptions } from "./Retry.hedge";
+import { retryAll } from "./Retry.batch";
+import type { RetryAllOptions, RetryBatchResult } from "./Retry.batch";
+import { retryIterable } from "./Retry.iterable";
+import type {
+  ResumableIterableFactory,
+  RetryIterableOptions,
+} from "./Retry.iterable";
+import DataErrorPayloadUtil from "../util/data-error-payload/DataErrorPayload.utils";
+import type {
+  DataErrorPayload,
+  DataErrorPayloadErr,
+} from "../util/data-error-payload/types/data-error-payload.types";
 
 /**
  * Base error class for all retry-related errors
@@ -24,6 +52,12 @@ export class RetryTimeoutError extends RetryError {
   }
 }
 
+/**
+ * Raised internally when a running attempt reaches the strict timeout deadline.
+ * Callers never see this error, they receive a RetryTimeoutError instead.
+ */
+class DeadlineReachedError extends RetryTimeoutError {}
+
 /**
  * Error thrown when a retry operation exceeds the maximum number of attempts
  */
@@ -34,13 +68,35 @@ export class RetryAttemptsExceededError extends RetryError {
   }
 }
 
+/**
+ * A single problem found in a configuration
+ */
+export interface RetryConfigurationIssue {
+  /** Option the problem was found in */
+  field: string;
+  /** Value the option had */
+  value: unknown;
+  /** What is wrong with the value, e.g. "must be a non-negative integer" */
+  reason: string;
+}
+
 /**
  * Error thrown when a retry operation fails due to an invalid configuration
  */
 export class RetryConfigurationError extends RetryError {
-  constructor(message: string, cause?: Error) {
+  /**
+   * Every problem found, when the configuration was validated as a whole
+   */
+  issues: RetryConfigurationIssue[];
+
+  constructor(
+    message: string,
+    cause?: Error,
+    issues: RetryConfigurationIssue[] = []
+  ) {
     super(message, cause);
     this.name = "RetryConfigurationError";
+    this.issues = issues;
   }
 }
 
@@ -54,15 +110,144 @@ export class RetryReportValidationError extends RetryError {
   }
 }
 
-interface Timer {
-  delay(ms: number): Promise<void>;
+/**
+ * Error thrown when a retry operation is cancelled through an AbortSignal
+ */
+export class RetryAbortedError extends RetryError {
+  constructor(message = "Retry operation aborted", cause?: Error) {
+    super(message, cause);
+    this.name = "RetryAbortedError";
+  }
+}
+
+/**
+ * Error given to the items of a RetryService.retryAll batch that was
+ * stopped because too many items failed
+ */
+export class RetryBatchStoppedError extends RetryError {
+  constructor(message = "Retry batch stopped", cause?: Error) {
+    super(message, cause);
+    this.name = "RetryBatchStoppedError";
+  }
+}
+
+/**
+ * Error recorded when a single attempt exceeds RetryOptions.attemptTimeout
+ */
+export class AttemptTimeoutError extends RetryError {
+  constructor(message = "Attempt timeout exceeded", cause?: Error) {
+    super(message, cause);
+    this.name = "AttemptTimeoutError";
+  }
+}
+
+/**
+ * Error thrown when a circuit breaker rejects a call without running it
+ */
+export class CircuitOpenError extends RetryError {
+  constructor(message = "Circuit is open", cause?: Error) {
+    super(message, cause);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Error thrown when a retry is denied because the retry budget is exhausted
+ */
+export class RetryBudgetExhaustedError extends RetryError {
+  constructor(message = "Retry budget exhausted", cause?: Error) {
+    super(message, cause);
+    this.name = "RetryBudgetExhaustedError";
+  }
+}
+
+/**
+ * Error thrown when a bulkhead rejects an execution because its queue is
+ * full or the execution waited longer than the queue timeout
+ */
+export class BulkheadFullError extends RetryError {
+  constructor(message = "Bulkhead is full", cause?: Error) {
+    super(message, cause);
+    this.name = "BulkheadFullError";
+  }
+}
+
+/**
+ * Error thrown when a rate limiter has no permit within the acceptable wait
+ */
+export class RateLimitExceededError extends RetryError {
+  constructor(message = "Rate limit exceeded", cause?: Error) {
+    super(message, cause);
+    this.name = "RateLimitExceededError";
+  }
+}
+
+/**
+ * Error thrown when a lifecycle hook throws.
+ * The operation ends, and the hook's error is kept as the cause.
+ */
+export class RetryHookError extends RetryError {
+  hook: RetryHookName;
+
+  constructor(message: string, hook: RetryHookName, cause?: Error) {
+    super(message, cause);
+    this.name = "RetryHookError";
+    this.hook = hook;
+  }
+}
+
+/**
+ * Error thrown when retryOnError or retryOnResult throws.
+ * The operation ends, and the predicate's error is kept as the cause.
+ */
+export class RetryPredicateError extends RetryError {
+  predicate: RetryPredicateName;
+
+  constructor(message: string, predicate: RetryPredicateName, cause?: Error) {
+    super(message, cause);
+    this.name = "RetryPredicateError";
+    this.predicate = predicate;
+  }
+}
+
+export interface Timer {
+  /**
+   * Resolves after the given number of milliseconds.
+   * When a signal is given, the pending timer is cleared and the promise
+   * resolves early as soon as the signal aborts.
+   */
+  delay(ms: number, signal?: AbortSignal): Promise<void>;
   now(): number;
 }
 
-const DefaultTimer: Timer = {
-  delay(ms: number): Promise<void> {
+/**
+ * Longest delay setTimeout supports. Longer delays fire after 1ms instead,
+ * so DefaultTimer waits at most this long.
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export const DefaultTimer: Timer = {
+  delay(ms: number, signal?: AbortSignal): Promise<void> {
     return new Promise<void>((resolve) => {
-      setTimeout(resolve, ms);
+      // An aborted signal never fires abort again
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        resolve();
+      };
+      const timeoutId = setTimeout(
+        () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        Math.min(ms, MAX_TIMER_DELAY)
+      );
+
+      signal?.addEventListener("abort", onAbort, { once: true });
     });
   },
 
@@ -71,6 +256,68 @@ const DefaultTimer: Timer = {
   },
 };
 
+export interface RandomSource {
+  /**
+   * Returns a number in the range [0, 1).
+   */
+  next(): number;
+}
+
+const DefaultRandomSource: RandomSource = {
+  next(): number {
+    return Math.random();
+  },
+};
+
+/**
+ * Detailed answer of a retry predicate.
+ * The delay or timestamp, usually taken from a server's Retry-After
+ * response, replaces the backoff delay for this retry only.
+ */
+export interface RetryDecision {
+  retry: boolean;
+  /**
+   * Delay in milliseconds before the next attempt.
+   * Not clamped to minDelay or maxDelay.
+   */
+  delay?: number;
+  /**
+   * Point in time at which to make the next attempt, as a Date or in
+   * milliseconds on the Timer's clock. Ignored when delay is set.
+   */
+  retryAt?: number | Date;
+  /**
+   * Name of the rule that made the decision, e.g. "http-status:503".
+   * Recorded with the retry reason in RetryReport.retryReasons.
+   */
+  rule?: string;
+}
+
+export type DelaySource = "backoff" | "decision";
+
+/**
+ * Information handed to the lifecycle hooks
+ */
+export interface RetryHookContext {
+  /** Number of the current attempt, starting at 1 */
+  attempt: number;
+  /** Number of retries left after the current attempt */
+  retriesLeft: number;
+  /** Time the retry operation started, on the Timer's clock */
+  startTime: number;
+}
+
+/**
+ * How a single attempt settled
+ */
+export type AttemptOutcome<T> =
+  { status: "result"; result: T } | { status: "error"; error: unknown };
+
+export type RetryPredicateName = "retryOnError" | "retryOnResult";
+
+export type RetryHookName =
+  "beforeAttempt" | "afterAttempt" | "onRetry" | "onGiveUp";
+
 export interface RetryOptions<T = unknown, E extends Error = Error> {
   retries: number;
   /**
@@ -79,25 +326,138 @@ export interface RetryOptions<T = unknown, E extends Error = Error> {
    */
   delay?: number;
   /**
-   * Whether to use exponential backoff for delays.
+   * Whether to grow the delay by the base delay on every retry.
+   * Equivalent to `backoff: Backoff.linear()` and ignored when backoff is set.
    * @default false
    */
   exponentialBackoff?: boolean;
+  /**
+   * Strategy computing the delay before each retry from the base delay.
+   * See Backoff for the built-in strategies.
+   * @default Backoff.constant()
+   */
+  backoff?: BackoffStrategy;
+  /**
+   * Upper bound in milliseconds for any computed delay.
+   * When undefined, delays are not capped.
+   */
+  maxDelay?: number;
+  /**
+   * Lower bound in milliseconds for any computed delay.
+   * @default 0
+   */
+  minDelay?: number;
   /**
    * Function to determine if retry should occur based on error.
+   * May return a RetryDecision to also dictate the delay, and may be async.
+   * Its time counts against the timeout, and if it throws the operation
+   * ends with a RetryPredicateError.
    * When undefined, retries on all errors.
    */
-  retryOnError?: (error: E) => boolean;
+  retryOnError?: (
+    error: E
+  ) => boolean | RetryDecision | Promise<boolean | RetryDecision>;
   /**
    * Function to determine if retry should occur based on result.
+   * May return a RetryDecision to also dictate the delay, and may be async.
+   * Its time counts against the timeout, and if it throws the operation
+   * ends with a RetryPredicateError.
    * When undefined, doesn't retry based on result.
    */
-  retryOnResult?: (result: T) => boolean;
+  retryOnResult?: (
+    result: T
+  ) => boolean | RetryDecision | Promise<boolean | RetryDecision>;
   /**
    * Maximum time in milliseconds for all retry attempts.
    * When undefined, no timeout is applied.
    */
   timeout?: number;
+  /**
+   * Enforces the timeout as a hard deadline.
+   * A running attempt is rejected the moment the deadline passes, and a
+   * delay that would end at or after the deadline is skipped so the
+   * operation fails right away instead of waiting in vain.
+   * Requires timeout to be set.
+   * @default false
+   */
+  strictTimeout?: boolean;
+  /**
+   * Maximum time in milliseconds for a single attempt.
+   * A slower attempt is abandoned, its signal is aborted and an
+   * AttemptTimeoutError is handled like any other error.
+   * When undefined, attempts are not limited.
+   */
+  attemptTimeout?: number;
+  /**
+   * Circuit breaker guarding every attempt.
+   * An open circuit fails the operation fast with a CircuitOpenError.
+   * Share one instance between calls to the same dependency.
+   */
+  circuitBreaker?: CircuitBreaker;
+  /**
+   * Retry budget every retry must withdraw a token from.
+   * Overrides the budget the RetryService was created with.
+   */
+  retryBudget?: RetryBudget;
+  /**
+   * Bulkhead every attempt must take a slot from, after beforeAttempt.
+   * A full bulkhead fails the operation with a BulkheadFullError.
+   * Share one instance between calls to the same dependency.
+   */
+  bulkhead?: Bulkhead;
+  /**
+   * Rate limiter every attempt must get a permit from, after beforeAttempt.
+   * When the wait for a permit would pass the timeout, the operation fails
+   * fast with a RetryTimeoutError.
+   * Share one instance between calls to the same dependency.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * Hook awaited before every attempt, e.g. to refresh an auth token.
+   * A hook that throws ends the operation with a RetryHookError.
+   */
+  beforeAttempt?: (context: RetryHookContext) => void | Promise<void>;
+  /**
+   * Hook awaited after every attempt that settled, before deciding
+   * whether to retry.
+   * A hook that throws ends the operation with a RetryHookError.
+   */
+  afterAttempt?: (
+    context: RetryHookContext,
+    outcome: AttemptOutcome<T>
+  ) => void | Promise<void>;
+  /**
+   * Hook awaited when a retry is scheduled, before the delay starts.
+   * Receives the error or result that triggered the retry.
+   * A hook that throws ends the operation with a RetryHookError.
+   */
+  onRetry?: (
+    reason: unknown,
+    nextDelay: number,
+    context: RetryHookContext
+  ) => void | Promise<void>;
+  /**
+   * Hook awaited when the operation fails for any reason other than
+   * being aborted, right after onComplete.
+   * Errors thrown by this hook are logged and otherwise ignored.
+   */
+  onGiveUp?: (report: RetryReport) => void | Promise<void>;
+  /**
+   * When true, a returned DataErrorPayloadErr is treated like a thrown
+   * error: its error is passed to retryOnError, recorded in the report, and
+   * when retrying stops the last error payload is returned instead of thrown.
+   * retryOnResult is only called for other results.
+   * @default false
+   */
+  payloadAware?: boolean;
+  /**
+   * Substitute result returned instead of throwing when the operation gives
+   * up for any reason other than being aborted. Either a static value, or a
+   * function receiving the final error and report.
+   * When the fallback function throws, the error is logged and the original
+   * error still reaches the caller.
+   */
+  fallback?: T | ((error: unknown, report: RetryReport) => T | Promise<T>);
   /**
    * Callback function executed when retry process completes.
    */
@@ -115,6 +475,56 @@ export interface RetryOptions<T = unknown, E extends Error = Error> {
    * @default 500
    */
   sanitizationThreshold?: number;
+  /**
+   * Signal used to cancel the retry operation.
+   * Aborting stops the current attempt or delay immediately and rejects
+   * with a RetryAbortedError.
+   */
+  signal?: AbortSignal;
+  /**
+   * Name the call is recorded under by the RetryMetrics attached to the
+   * service. Defaults to the policy name when a policy name is passed,
+   * and to "default" otherwise.
+   */
+  operationName?: string;
+}
+
+/**
+ * Time spent in one phase of a retry operation under a strict timeout
+ */
+export interface TimeoutPhase {
+  phase: "attempt" | "delay";
+  /** Time in milliseconds spent in the phase */
+  duration: number;
+  /** Time in milliseconds left until the deadline when the phase ended */
+  remaining: number;
+}
+
+/**
+ * How a hedged attempt ended
+ */
+export type HedgedAttemptOutcome =
+  "success" | "error" | "retryable-result" | "cancelled";
+
+/**
+ * Entry of RetryReport.hedgedAttempts
+ */
+export interface HedgedAttempt {
+  /** Number of the attempt, starting at 1 */
+  attempt: number;
+  /** Milliseconds between the start of the operation and the attempt */
+  startOffset: number;
+  outcome: HedgedAttemptOutcome;
+}
+
+/**
+ * Error or result that triggered a retry
+ */
+export interface RetryReason {
+  type: "error" | "result";
+  value: unknown;
+  /** Rule of the RetryDecision that triggered the retry, when it named one */
+  rule?: string;
 }
 
 export interface RetryReport {
@@ -123,19 +533,39 @@ export interface RetryReport {
   attempts: number;
   errors: Error[];
   delays: number[];
+  /** Where each entry of delays came from, in the same order */
+  delaySources?: DelaySource[];
   retryingOperationSucceeded: boolean;
   timedOut?: boolean;
-  retryReasons?: Array<{ type: "error" | "result"; value: unknown }>;
+  aborted?: boolean;
+  retryReasons?: RetryReason[];
+  /** How the timeout budget was used, recorded when strictTimeout is set */
+  timeoutPhases?: TimeoutPhase[];
+  /** State of the circuit breaker when the operation completed */
+  circuitState?: CircuitState;
+  /** Whether retrying stopped because the retry budget was exhausted */
+  budgetExhausted?: boolean;
+  /** Whether the fallback produced the result after the operation gave up */
+  fallbackUsed?: boolean;
+  /** Total time in milliseconds attempts waited for a bulkhead slot */
+  queueTime?: number;
+  /** Total time in milliseconds attempts waited for a rate limiter permit */
+  rateLimitWait?: number;
+  /** Every attempt launched by RetryService.hedge, in launch order */
+  hedgedAttempts?: HedgedAttempt[];
+  /** Times RetryService.retryIterable reopened the stream after a failure */
+  resumes?: number;
 }
 
 /**
- * Immutable builder for retry reports.
+ * Immutable builder for retry reports, exported for the execution modes
+ * built on RetryService, such as hedge, that assemble their own report.
  * This class is an implementation detail and not part of the public API.
  *
  * Each modification method returns a new builder instance.
  * Create new reports with: new RetryReportBuilder(startTime)
  */
-class RetryReportBuilder {
+export class RetryReportBuilder {
   private report: RetryReport;
 
   constructor(startTime: number) {
@@ -187,24 +617,57 @@ class RetryReportBuilder {
   /**
    * Creates a new report with the given delay added
    */
-  public withDelay(delay: number): RetryReportBuilder {
+  public withDelay(
+    delay: number,
+    source: DelaySource = "backoff"
+  ): RetryReportBuilder {
+    const sources = this.report.delaySources || [];
+
     return this.copyWithUpdates({
       delays: [...this.report.delays, delay],
+      delaySources: [...sources, source],
     });
   }
 
+  /**
+   * Creates a new report with the given timeout phase added
+   */
+  public withTimeoutPhase(phase: TimeoutPhase): RetryReportBuilder {
+    const phases = this.report.timeoutPhases || [];
+
+    return this.copyWithUpdates({
+      timeoutPhases: [...phases, phase],
+    });
+  }
+
+  /**
+   * Returns the most recently added error, if any
+   */
+  public lastError(): Error | undefined {
+    return this.report.errors[this.report.errors.length - 1];
+  }
+
+  /**
+   * Returns the most recently added delay, if any
+   */
+  public lastDelay(): number | undefined {
+    return this.report.delays[this.report.delays.length - 1];
+  }
+
   /**
    * Creates a new report with the given retry reason added
    * @param type The type of retry reason
    * @param value The value that caused the retry
    * @param sanitize Whether to sanitize large objects (defaults to true)
    * @param threshold Character threshold for sanitization (defaults to 500)
+   * @param rule Rule of the decision that triggered the retry, if any
    */
   public withRetryReason(
     type: "error" | "result",
     value: unknown,
     sanitize = true,
-    threshold = 500
+    threshold = 500,
+    rule?: string
   ): RetryReportBuilder {
     const reasons = this.report.retryReasons || [];
     const sanitizedValue = RetryReportBuilder.sanitizeForLogging(
@@ -214,7 +677,12 @@ class RetryReportBuilder {
     );
 
     return this.copyWithUpdates({
-      retryReasons: [...reasons, { type, value: sanitizedValue }],
+      retryReasons: [
+        ...reasons,
+        rule === undefined
+          ? { type, value: sanitizedValue }
+          : { type, value: sanitizedValue, rule },
+      ],
     });
   }
 
@@ -270,6 +738,70 @@ class RetryReportBuilder {
     });
   }
 
+  /**
+   * Creates a new report marked as aborted
+   */
+  public withAbort(currentTime: number): RetryReportBuilder {
+    return this.copyWithUpdates({
+      aborted: true,
+      totalTime: currentTime - this.report.startTime,
+    });
+  }
+
+  /**
+   * Creates a new report with the given circuit breaker state
+   */
+  public withCircuitState(circuitState: CircuitState): RetryReportBuilder {
+    return this.copyWithUpdates({ circuitState });
+  }
+
+  /**
+   * Creates a new report with the given hedged attempts
+   */
+  public withHedgedAttempts(
+    hedgedAttempts: HedgedAttempt[]
+  ): RetryReportBuilder {
+    return this.copyWithUpdates({
+      hedgedAttempts: hedgedAttempts.map((attempt) => ({ ...attempt })),
+    });
+  }
+
+  /**
+   * Creates a new report with the given rate limiter wait added
+   */
+  public withRateLimitWait(duration: number): RetryReportBuilder {
+    return this.copyWithUpdates({
+      rateLimitWait: (this.report.rateLimitWait ?? 0) + duration,
+    });
+  }
+
+  /**
+   * Creates a new report with the given bulkhead queue time added
+   */
+  public withQueueTime(duration: number): RetryReportBuilder {
+    return this.copyWithUpdates({
+      queueTime: (this.report.queueTime ?? 0) + duration,
+    });
+  }
+
+  /**
+   * Creates a new report marked as stopped by the retry budget
+   */
+  public withBudgetExhausted(currentTime: number): RetryReportBuilder {
+    return this.copyWithUpdates({
+      budgetExhausted: true,
+      retryingOperationSucceeded: false,
+      totalTime: currentTime - this.report.startTime,
+    });
+  }
+
+  /**
+   * Creates a new report marked as rescued by the fallback
+   */
+  public withFallback(): RetryReportBuilder {
+    return this.copyWithUpdates({ fallbackUsed: true });
+  }
+
   /**
    * Creates a new report marked as failed
    */
@@ -301,219 +833,974 @@ class RetryReportBuilder {
   }
 }
 
+/**
+ * Context handed to the retried function on every attempt
+ */
+export interface AttemptContext<T = unknown> extends RetryHookContext {
+  /**
+   * How the previous attempt settled, undefined on the first attempt
+   */
+  previousOutcome?: AttemptOutcome<T>;
+  /**
+   * Milliseconds left until the timeout, or null when no timeout is set
+   */
+  remainingTime: number | null;
+  /**
+   * Aborted when the attempt times out or the retry operation is cancelled,
+   * so the underlying work can be stopped.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Error side of a RetryPayload: the error the operation ended with,
+ * together with the final report
+ */
+export interface RetryFailure<E extends Error = Error> {
+  error: E | RetryError;
+  report: RetryReport;
+}
+
+export type RetryPayload<T, E extends Error = Error> = DataErrorPayload<
+  T,
+  RetryFailure<E>
+>;
+
 export interface IRetry {
   retry<T = unknown, E extends Error = Error>(
-    fn: () => Promise<T>,
-    options: RetryOptions<T, E>
+    fn: (context: AttemptContext<T>) => Promise<T>,
+    options: RetryOptions<T, E> | string
   ): Promise<T>;
+  retryAsPayload<T = unknown, E extends Error = Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
+    options: RetryOptions<T, E> | string
+  ): Promise<RetryPayload<T, E>>;
+  hedge<T = unknown, E extends Error = Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
+    options: HedgeOptions<T, E>
+  ): Promise<T>;
+  retryIterable<T = unknown, C = T, E extends Error = Error>(
+    factory: ResumableIterableFactory<T, C>,
+    options: RetryIterableOptions<T, C, E>
+  ): AsyncGenerator<T, void, undefined>;
+  retryAll<I, T = unknown, E extends Error = Error>(
+    items: readonly I[],
+    fn: (item: I, context: AttemptContext<T>) => Promise<T>,
+    options: RetryAllOptions<T, E>
+  ): Promise<RetryBatchResult<I, T, E>>;
 }
 
-export class RetryService implements IRetry {
-  private readonly logger: LogHandler;
-  private readonly timer: Timer;
+/**
+ * Settings resolved once per retry call and shared by every attempt.
+ * This interface is an implementation detail and not part of the public API.
+ */
+interface RetryExecution<T, E extends Error> {
+  fn: (context: AttemptContext<T>) => Promise<T>;
+  options: RetryOptions<T, E>;
+  startTime: number;
+  delay: number;
+  timeout: number | null;
+  strictTimeout: boolean;
+  sanitizationThreshold: number;
+  retryBudget?: RetryBudget;
+}
 
-  constructor(loggerInstance?: LogHandler, timer: Timer = DefaultTimer) {
-    this.logger = loggerInstance ?? logger;
-    this.timer = timer;
-  }
+/**
+ * How an operation whose attempts were not run by RetryService ended.
+ * A failure is exhausted when every attempt failed with a retryable
+ * error or result.
+ * This type is an implementation detail and not part of the public API.
+ */
+export type RetryEnding<T> =
+  | { status: "success"; result: T }
+  | { status: "failure"; error: unknown; exhausted: boolean }
+  | { status: "decision-error"; error: unknown }
+  | { status: "timeout" }
+  | { status: "abort" };
 
-  public async retry<T = unknown, E extends Error = Error>(
-    fn: () => Promise<T>,
+/**
+ * What RetryService lends the execution modes built on top of it,
+ * such as hedge, retryIterable and retryAll.
+ * This interface is an implementation detail and not part of the public API.
+ */
+export interface RetryEngine {
+  readonly logger: LogHandler;
+  readonly timer: Timer;
+  /**
+   * Retries the function with options that were already validated
+   */
+  run<T, E extends Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
     options: RetryOptions<T, E>
-  ): Promise<T> {
-    RetryService.validateOptions(options);
-
-    const retries = Math.max(0, options.retries);
-    const delay = Math.max(0, options.delay || 0);
-    const timeout = options.timeout ? this.timer.now() + options.timeout : null;
-    const sanitizationThreshold = options.sanitizationThreshold ?? 500;
-
-    const reportBuilder = new RetryReportBuilder(this.timer.now());
+  ): Promise<T>;
+  /**
+   * Same as run, but resolves to the payload and final report instead
+   * of throwing
+   */
+  settle<T, E extends Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
+    options: RetryOptions<T, E>
+  ): Promise<{ payload: RetryPayload<T, E>; report: RetryReport }>;
+  /**
+   * Combines the reports of consecutive operations into one covering them all
+   */
+  mergeReports(reports: RetryReport[], startTime: number): RetryReport;
+  /**
+   * Report of an operation that ended before its first attempt
+   */
+  emptyReport(): RetryReport;
+  /**
+   * Options that record the final report in the attached metrics before
+   * handing it to onComplete
+   */
+  withMetrics<O extends Pick<RetryOptions, "operationName" | "onComplete">>(
+    options: O
+  ): O;
+  /**
+   * Evaluates retryOnError or retryOnResult for the outcome of an attempt
+   * @throws RetryPredicateError if the predicate throws
+   */
+  decide<T, E extends Error>(
+    options: RetryOptions<T, E>,
+    predicate: RetryPredicateName,
+    value: unknown
+  ): Promise<RetryDecision>;
+  /**
+   * Completes the report and resolves to the result, the error payload or
+   * the fallback, or rejects with the final error
+   */
+  finish<T, E extends Error>(
+    ending: RetryEnding<T>,
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, E>
+  ): Promise<T>;
+}
 
-    return this.attempt(
-      fn,
-      options,
-      retries,
-      delay,
-      timeout,
-      sanitizationThreshold,
-      reportBuilder
-    );
+/**
+ * Collaborators shared by every retry call of a RetryService instance
+ */
+export interface RetryServiceConfig {
+  /**
+   * Retry budget shared by all calls that don't pass their own
+   */
+  retryBudget?: RetryBudget;
+  /**
+   * Registry that policy names passed instead of options are looked up in.
+   * Defaults to the shared retryPolicies registry.
+   */
+  policies?: RetryPolicyRegistry;
+  /**
+   * Metrics the final report of every call is recorded in
+   */
+  metrics?: RetryMetrics;
+}
+
+export class RetryService implements IRetry {
+  private readonly logger: LogHandler;
+  private readonly timer: Timer;
+  private readonly random: RandomSource;
+  private readonly config: RetryServiceConfig;
+  private readonly engine: RetryEngine;
+
+  constructor(
+    loggerInstance?: LogHandler,
+    timer: Timer = DefaultTimer,
+    random: RandomSource = DefaultRandomSource,
+    config: RetryServiceConfig = {}
+  ) {
+    this.logger = loggerInstance ?? logger;
+    this.timer = timer;
+    this.random = random;
+    this.config = config;
+    this.engine = {
+      logger: this.logger,
+      timer: this.timer,
+      run: this.run.bind(this),
+      settle: this.settle.bind(this),
+      mergeReports: this.mergeReports.bind(this),
+      emptyReport: this.emptyReport.bind(this),
+      withMetrics: this.withMetrics.bind(this),
+      decide: this.decide.bind(this),
+      finish: this.finish.bind(this),
+    };
+  }
+
+  /**
+   * Retries the function with the given options, or with the options of
+   * the registered policy of that name
+   */
+  public async retry<T = unknown, E extends Error = Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
+    optionsOrPolicy: RetryOptions<T, E> | string
+  ): Promise<T> {
+    const options = this.resolveOptions(optionsOrPolicy);
+    RetryOptionsValidator.assertValid(options, this.logger);
+
+    return this.run(fn, this.withMetrics(options));
+  }
+
+  /**
+   * Yields the items of an async iterable, reopening it after a failure
+   * instead of starting over. Getting each item is retried with the given
+   * options. A failed stream is reopened with the cursor of the last item
+   * yielded, so items already passed downstream are not yielded again.
+   *
+   * @example
+   * for await (const order of retryService.retryIterable(
+   *   (afterId) => fetchOrderPages(afterId),
+   *   { retries: 3, delay: 500, cursor: (order) => order.id }
+   * )) { ... }
+   */
+  public async *retryIterable<T = unknown, C = T, E extends Error = Error>(
+    factory: ResumableIterableFactory<T, C>,
+    options: RetryIterableOptions<T, C, E>
+  ): AsyncGenerator<T, void, undefined> {
+    yield* retryIterable(this.engine, factory, options);
   }
 
-  private static validateOptions<T, E extends Error>(
+  /**
+   * Runs the function with options that were already validated, resolving
+   * to its payload and final report instead of throwing
+   */
+  private async settle<T, E extends Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
     options: RetryOptions<T, E>
-  ): void {
-    if (options.retries < 0) {
-      throw new RetryConfigurationError("Negative retries");
+  ): Promise<{ payload: RetryPayload<T, E>; report: RetryReport }> {
+    let finalReport: RetryReport | undefined;
+    const reportingOptions: RetryOptions<T, E> = {
+      ...options,
+      onComplete: (report) => {
+        finalReport = report;
+        options.onComplete?.(report);
+      },
+    };
+
+    try {
+      const result = await this.run(fn, reportingOptions);
+
+      return {
+        payload: DataErrorPayloadUtil.create(result),
+        report: finalReport ?? this.emptyReport(),
+      };
+    } catch (error) {
+      const report = finalReport ?? this.emptyReport();
+
+      return {
+        payload: DataErrorPayloadUtil.createErr({
+          error: error as E | RetryError,
+          report,
+        }),
+        report,
+      };
     }
+  }
 
-    if (options.delay !== undefined && options.delay < 0) {
-      throw new RetryConfigurationError("Delay cannot be negative");
+  /**
+   * Options that record the final report in the attached metrics before
+   * handing it to onComplete
+   */
+  private withMetrics<
+    O extends Pick<RetryOptions, "operationName" | "onComplete">,
+  >(options: O): O {
+    const { metrics } = this.config;
+
+    if (!metrics) {
+      return options;
     }
 
-    if (options.timeout !== undefined && options.timeout <= 0) {
-      throw new RetryConfigurationError("Timeout must be greater than zero");
+    return {
+      ...options,
+      onComplete: (report) => {
+        metrics.record(options.operationName ?? "default", report);
+        options.onComplete?.(report);
+      },
+    };
+  }
+
+  private async run<T, E extends Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
+    options: RetryOptions<T, E>
+  ): Promise<T> {
+    const startTime = this.timer.now();
+    const execution: RetryExecution<T, E> = {
+      fn,
+      options,
+      startTime,
+      delay: Math.max(0, options.delay || 0),
+      timeout: options.timeout ? startTime + options.timeout : null,
+      strictTimeout: options.strictTimeout === true,
+      sanitizationThreshold: options.sanitizationThreshold ?? 500,
+      retryBudget: options.retryBudget ?? this.config.retryBudget,
+    };
+
+    const retries = Math.max(0, options.retries);
+    const reportBuilder = new RetryReportBuilder(startTime);
+
+    return this.attempt(execution, retries, reportBuilder);
+  }
+
+  /**
+   * Same as retry, but never throws. Resolves to an ok payload with the
+   * result, or to an error payload with the final error and report.
+   */
+  public async retryAsPayload<T = unknown, E extends Error = Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
+    optionsOrPolicy: RetryOptions<T, E> | string
+  ): Promise<RetryPayload<T, E>> {
+    let options: RetryOptions<T, E>;
+
+    try {
+      options = this.resolveOptions(optionsOrPolicy);
+      RetryOptionsValidator.assertValid(options, this.logger);
+    } catch (error) {
+      return DataErrorPayloadUtil.createErr({
+        error: error as RetryError,
+        report: this.emptyReport(),
+      });
     }
 
-    if (
-      options.sanitizationThreshold !== undefined &&
-      options.sanitizationThreshold < 0
-    ) {
-      throw new RetryConfigurationError(
-        "Sanitization threshold cannot be negative"
-      );
+    return (await this.settle(fn, this.withMetrics(options))).payload;
+  }
+
+  /**
+   * Retries the function for every item, running up to `concurrency` items
+   * at a time. Never rejects because of a failing item: each item gets its
+   * own payload and report, and the summary counts how the batch went.
+   * @throws RetryConfigurationError when the options are invalid
+   *
+   * @example
+   * const { results, summary } = await retryService.retryAll(
+   *   invoices,
+   *   (invoice) => sendInvoice(invoice),
+   *   { retries: 2, concurrency: 10, failureRatioThreshold: 0.5 }
+   * );
+   */
+  public async retryAll<I, T = unknown, E extends Error = Error>(
+    items: readonly I[],
+    fn: (item: I, context: AttemptContext<T>) => Promise<T>,
+    options: RetryAllOptions<T, E>
+  ): Promise<RetryBatchResult<I, T, E>> {
+    return retryAll(this.engine, items, fn, options);
+  }
+
+  /**
+   * Runs copies of the function side by side instead of one after another.
+   * A copy is launched right away, and another one every hedgeDelay
+   * milliseconds while none has succeeded, up to maxHedges extra copies.
+   * The first success wins and the other copies are aborted.
+   * @throws The first non-retryable error, or a RetryAttemptsExceededError
+   * when every copy failed with a retryable error
+   */
+  public async hedge<T = unknown, E extends Error = Error>(
+    fn: (context: AttemptContext<T>) => Promise<T>,
+    options: HedgeOptions<T, E>
+  ): Promise<T> {
+    return hedge(this.engine, fn, options);
+  }
+
+  private resolveOptions<T, E extends Error>(
+    optionsOrPolicy: RetryOptions<T, E> | string
+  ): RetryOptions<T, E> {
+    if (typeof optionsOrPolicy !== "string") {
+      return optionsOrPolicy;
     }
+
+    return {
+      operationName: optionsOrPolicy,
+      ...(this.config.policies ?? retryPolicies).get<T, E>(optionsOrPolicy),
+    };
   }
 
   private async attempt<T, E extends Error>(
-    fn: () => Promise<T>,
-    options: RetryOptions<T, E>,
+    execution: RetryExecution<T, E>,
     retriesLeft: number,
-    delay: number,
-    timeout: number | null,
-    sanitizationThreshold: number,
-    currentReportBuilder: RetryReportBuilder
+    currentReportBuilder: RetryReportBuilder,
+    previousOutcome?: AttemptOutcome<T>
   ): Promise<T> {
-    const updatedReportBuilder = currentReportBuilder.withAttempt();
+    const { options } = execution;
+
+    if (options.signal?.aborted) {
+      return this.handleAbort(currentReportBuilder, options);
+    }
 
-    if (this.isTimedOut(timeout)) {
-      return this.handleTimeout(updatedReportBuilder, options);
+    if (this.isTimedOut(execution)) {
+      return this.handleTimeout(currentReportBuilder.withAttempt(), options);
     }
 
+    let permission: CircuitPermission | undefined;
+
     try {
-      this.logger.debug(`Attempting function, retries left: ${retriesLeft}`);
+      permission = options.circuitBreaker?.acquirePermission();
+    } catch (error) {
+      return this.handleCircuitOpen(
+        error as CircuitOpenError,
+        currentReportBuilder,
+        options
+      );
+    }
+
+    const updatedReportBuilder = currentReportBuilder.withAttempt();
+    const hookContext = this.hookContext(execution, retriesLeft);
+
+    try {
+      await this.callHook(options, "beforeAttempt", hookContext);
+    } catch (hookError) {
+      this.releasePermission(options, permission);
+      return this.handleHookError(
+        hookError as RetryHookError,
+        updatedReportBuilder,
+        options
+      );
+    }
+
+    let permittedReportBuilder = updatedReportBuilder;
+
+    if (options.rateLimiter) {
+      const wait = options.rateLimiter.tryReserve(
+        this.timeLeft(execution) ?? Infinity
+      );
 
-      const result = await fn();
-
-      if (options.retryOnResult && options.retryOnResult(result)) {
-        if (retriesLeft > 0) {
-          return await this.handleRetryableResult(
-            fn,
-            result,
-            options,
-            retriesLeft,
-            delay,
-            timeout,
-            sanitizationThreshold,
-            updatedReportBuilder
+      if (wait === null) {
+        this.releasePermission(options, permission);
+        this.logger.debug(
+          `Waiting for a rate limiter permit would exceed the timeout, giving up`
+        );
+
+        return this.handleTimeout(updatedReportBuilder, options);
+      }
+
+      permittedReportBuilder = updatedReportBuilder.withRateLimitWait(wait);
+
+      if (wait > 0) {
+        this.logger.debug(`Waiting ${wait}ms for a rate limiter permit`);
+
+        try {
+          await this.raceAbort(
+            this.sleep(wait, options.signal),
+            options.signal
           );
+        } catch {
+          this.releasePermission(options, permission);
+          return this.handleAbort(permittedReportBuilder, options);
         }
+      }
+    }
 
-        this.logger.debug(
-          `No retries left for retryable result. Returning result: ${JSON.stringify(
-            result
-          )}`
+    let queuedReportBuilder = permittedReportBuilder;
+
+    if (options.bulkhead) {
+      const queueStartedAt = this.timer.now();
+
+      try {
+        await this.acquireSlot(execution, options.bulkhead);
+      } catch (error) {
+        this.releasePermission(options, permission);
+        return this.handleBulkheadError(
+          error,
+          permittedReportBuilder.withQueueTime(
+            this.timer.now() - queueStartedAt
+          ),
+          options
         );
       }
 
-      return this.handleSuccess(result, updatedReportBuilder, options);
+      queuedReportBuilder = permittedReportBuilder.withQueueTime(
+        this.timer.now() - queueStartedAt
+      );
+    }
+
+    const attemptStartedAt = this.phaseStart(execution);
+    let result: T;
+
+    try {
+      this.logger.debug(`Attempting function, retries left: ${retriesLeft}`);
+
+      const pending = this.runAttempt(execution, hookContext, previousOutcome);
+      const release = () => options.bulkhead?.release();
+
+      // The slot is held until the attempt settles, even when an abort
+      // stops waiting for it earlier
+      pending.then(release, release);
+      result = await this.raceAbort(pending, options.signal);
     } catch (error) {
-      return this.handleError(
-        error as E,
-        fn,
-        options,
+      const failedReportBuilder = this.withPhase(
+        execution,
+        queuedReportBuilder,
+        "attempt",
+        attemptStartedAt
+      );
+
+      if (options.signal?.aborted) {
+        this.releasePermission(options, permission);
+        return this.handleAbort(failedReportBuilder, options);
+      }
+
+      return this.handleAttemptError(
+        error,
+        execution,
         retriesLeft,
-        delay,
-        timeout,
-        sanitizationThreshold,
-        updatedReportBuilder
+        failedReportBuilder,
+        hookContext,
+        permission
+      );
+    }
+
+    const attemptedReportBuilder = this.withPhase(
+      execution,
+      queuedReportBuilder,
+      "attempt",
+      attemptStartedAt
+    );
+
+    if (
+      options.payloadAware &&
+      DataErrorPayloadUtil.isErr(result as DataErrorPayload<unknown, unknown>)
+    ) {
+      return this.handleAttemptError(
+        (result as DataErrorPayloadErr<unknown>).error,
+        execution,
+        retriesLeft,
+        attemptedReportBuilder,
+        hookContext,
+        permission,
+        result
+      );
+    }
+
+    if (permission) {
+      options.circuitBreaker?.recordSuccess(permission);
+    }
+
+    try {
+      await this.callHook(options, "afterAttempt", hookContext, {
+        status: "result",
+        result,
+      });
+    } catch (hookError) {
+      return this.handleHookError(
+        hookError as RetryHookError,
+        attemptedReportBuilder,
+        options
+      );
+    }
+
+    let resultDecision: RetryDecision;
+
+    try {
+      resultDecision = await this.decide(
+        execution.options,
+        "retryOnResult",
+        result,
+        this.remainingBudget(execution)
+      );
+    } catch (decisionError) {
+      return this.handleDecisionError(
+        decisionError,
+        attemptedReportBuilder,
+        options
+      );
+    }
+
+    if (resultDecision.retry) {
+      if (retriesLeft > 0) {
+        return this.handleRetryableResult(
+          result,
+          resultDecision,
+          execution,
+          retriesLeft,
+          attemptedReportBuilder
+        );
+      }
+
+      this.logger.debug(
+        "No retries left for retryable result. Returning result:",
+        result
+      );
+    }
+
+    execution.retryBudget?.deposit();
+
+    return this.handleSuccess(result, attemptedReportBuilder, options);
+  }
+
+  /**
+   * Waits for a bulkhead slot. The wait ends early when the operation is
+   * aborted, or when the deadline passes under a strict timeout.
+   */
+  private async acquireSlot<T, E extends Error>(
+    execution: RetryExecution<T, E>,
+    bulkhead: Bulkhead
+  ): Promise<void> {
+    const { signal } = execution.options;
+    const waitController = new AbortController();
+    const onAbort = () => waitController.abort(signal?.reason);
+
+    if (signal?.aborted) {
+      onAbort();
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const pending = bulkhead.acquire(waitController.signal);
+      const remaining = this.remainingBudget(execution);
+
+      if (remaining === null) {
+        return await pending;
+      }
+
+      // A slot granted after the deadline is not used, so hand it back
+      pending.then(
+        () => waitController.signal.aborted && bulkhead.release(),
+        () => undefined
+      );
+
+      return await this.raceTimer(
+        pending,
+        remaining,
+        () => new DeadlineReachedError("Retry timeout exceeded"),
+        waitController
       );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
-  private isTimedOut(timeout: number | null): boolean {
-    return Boolean(timeout && this.timer.now() > timeout);
+  /**
+   * Handles an attempt that threw, or that returned an error payload
+   * in payload-aware mode
+   */
+  private async handleAttemptError<T, E extends Error>(
+    error: unknown,
+    execution: RetryExecution<T, E>,
+    retriesLeft: number,
+    reportBuilder: RetryReportBuilder,
+    hookContext: RetryHookContext,
+    permission: CircuitPermission | undefined,
+    errorPayload?: T
+  ): Promise<T> {
+    const { options } = execution;
+
+    if (permission) {
+      options.circuitBreaker?.recordFailure(permission, error);
+    }
+
+    try {
+      await this.callHook(options, "afterAttempt", hookContext, {
+        status: "error",
+        error,
+      });
+    } catch (hookError) {
+      return this.handleHookError(
+        hookError as RetryHookError,
+        reportBuilder.withError(error),
+        options
+      );
+    }
+
+    if (error instanceof DeadlineReachedError) {
+      return this.handleTimeout(reportBuilder, options);
+    }
+
+    return this.handleError(
+      error as E,
+      execution,
+      retriesLeft,
+      reportBuilder,
+      errorPayload
+    );
+  }
+
+  /**
+   * Calls the retried function with a signal of its own, which is aborted
+   * when the attempt times out, the strict deadline passes or the whole
+   * operation is aborted
+   */
+  private async runAttempt<T, E extends Error>(
+    execution: RetryExecution<T, E>,
+    hookContext: RetryHookContext,
+    previousOutcome?: AttemptOutcome<T>
+  ): Promise<T> {
+    const { options } = execution;
+    const attemptController = new AbortController();
+    const onAbort = () => attemptController.abort(options.signal?.reason);
+
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const pending = execution.fn({
+        ...hookContext,
+        previousOutcome,
+        remainingTime: this.timeLeft(execution),
+        signal: attemptController.signal,
+      });
+      const remaining = this.remainingBudget(execution);
+
+      if (
+        remaining !== null &&
+        (options.attemptTimeout === undefined ||
+          remaining <= options.attemptTimeout)
+      ) {
+        return await this.raceTimer(
+          pending,
+          remaining,
+          () => new DeadlineReachedError("Retry timeout exceeded"),
+          attemptController
+        );
+      }
+
+      return options.attemptTimeout === undefined
+        ? await pending
+        : await this.raceTimer(
+            pending,
+            options.attemptTimeout,
+            () =>
+              new AttemptTimeoutError(
+                `Attempt timed out after ${options.attemptTimeout}ms`
+              ),
+            attemptController
+          );
+    } finally {
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Settles with the given promise, or rejects with the created error
+   * and aborts the attempt, if any, when the timer fires first
+   */
+  private raceTimer<R>(
+    promise: Promise<R>,
+    ms: number,
+    createError: () => Error,
+    attemptController?: AbortController
+  ): Promise<R> {
+    const timerController = new AbortController();
+
+    return new Promise<R>((resolve, reject) => {
+      this.timer.delay(ms, timerController.signal).then(() => {
+        if (timerController.signal.aborted) {
+          return;
+        }
+
+        const error = createError();
+
+        attemptController?.abort(error);
+        reject(error);
+      });
+
+      promise.then(resolve, reject).finally(() => timerController.abort());
+    });
+  }
+
+  private isTimedOut<T, E extends Error>(
+    execution: RetryExecution<T, E>
+  ): boolean {
+    if (execution.timeout === null) {
+      return false;
+    }
+
+    return execution.strictTimeout
+      ? this.timer.now() >= execution.timeout
+      : this.timer.now() > execution.timeout;
+  }
+
+  /**
+   * Returns the time left until the timeout, or null when no timeout is set
+   */
+  private timeLeft<T, E extends Error>(
+    execution: RetryExecution<T, E>
+  ): number | null {
+    return execution.timeout === null
+      ? null
+      : Math.max(0, execution.timeout - this.timer.now());
+  }
+
+  /**
+   * Returns the time left until the strict deadline, or null when the
+   * timeout is not strict
+   */
+  private remainingBudget<T, E extends Error>(
+    execution: RetryExecution<T, E>
+  ): number | null {
+    return execution.strictTimeout ? this.timeLeft(execution) : null;
+  }
+
+  /**
+   * Returns the start time of a phase, only reading the timer when
+   * phases are being recorded
+   */
+  private phaseStart<T, E extends Error>(
+    execution: RetryExecution<T, E>
+  ): number {
+    return execution.strictTimeout ? this.timer.now() : 0;
+  }
+
+  /**
+   * Records how much of the strict timeout budget a phase used
+   */
+  private withPhase<T, E extends Error>(
+    execution: RetryExecution<T, E>,
+    reportBuilder: RetryReportBuilder,
+    phase: TimeoutPhase["phase"],
+    startedAt: number
+  ): RetryReportBuilder {
+    const remaining = this.remainingBudget(execution);
+
+    if (remaining === null) {
+      return reportBuilder;
+    }
+
+    return reportBuilder.withTimeoutPhase({
+      phase,
+      duration: this.timer.now() - startedAt,
+      remaining,
+    });
+  }
+
+  /**
+   * Settles with the given promise, or rejects with a RetryAbortedError
+   * as soon as the signal aborts, whichever happens first.
+   */
+  private raceAbort<R>(promise: Promise<R>, signal?: AbortSignal): Promise<R> {
+    if (!signal) {
+      return promise;
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      const onAbort = () => reject(new RetryAbortedError());
+
+      promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private async handleTimeout<T>(
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): Promise<T> {
+    this.logger.debug(`Retry timeout exceeded`);
+
+    return this.giveUp(
+      new RetryTimeoutError(
+        "Retry timeout exceeded",
+        reportBuilder.lastError()
+      ),
+      reportBuilder.withTimeout(this.timer.now()),
+      options
+    );
   }
 
-  private handleTimeout<T>(
+  private async handleAbort<T>(
     reportBuilder: RetryReportBuilder,
     options: RetryOptions<T, any>
-  ): never {
-    this.logger.debug(`Retry timeout exceeded`);
+  ): Promise<never> {
+    this.logger.debug(`Retry operation aborted`);
 
-    const finalReport = reportBuilder.withTimeout(this.timer.now()).build();
+    await this.completeReport(
+      reportBuilder.withAbort(this.timer.now()),
+      options
+    );
 
-    const maybeLastError =
-      finalReport.errors.length > 0
-        ? finalReport.errors[finalReport.errors.length - 1]
-        : undefined;
+    const reason = options.signal?.reason;
 
-    if (options.onComplete) {
-      options.onComplete(finalReport);
-    }
+    throw new RetryAbortedError(
+      "Retry operation aborted",
+      reason instanceof Error ? reason : undefined
+    );
+  }
+
+  private async handleCircuitOpen<T>(
+    error: CircuitOpenError,
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): Promise<T> {
+    this.logger.debug(`${error.message}. Failing fast`);
+
+    return this.giveUp(
+      new CircuitOpenError(error.message, reportBuilder.lastError()),
+      reportBuilder.withFailure(this.timer.now()),
+      options
+    );
+  }
 
-    throw new RetryTimeoutError("Retry timeout exceeded", maybeLastError);
+  private async handleBudgetExhausted<T>(
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): Promise<T> {
+    this.logger.debug(`Retry budget exhausted, not retrying`);
+
+    return this.giveUp(
+      new RetryBudgetExhaustedError(
+        "Retry budget exhausted",
+        reportBuilder.lastError()
+      ),
+      reportBuilder.withBudgetExhausted(this.timer.now()),
+      options
+    );
   }
 
   private async handleRetryableResult<T, E extends Error>(
-    fn: () => Promise<T>,
     result: T,
-    options: RetryOptions<T, E>,
+    decision: RetryDecision,
+    execution: RetryExecution<T, E>,
     retriesLeft: number,
-    delay: number,
-    timeout: number | null,
-    sanitizationThreshold: number,
     reportBuilder: RetryReportBuilder
   ): Promise<T> {
-    const currentDelay = RetryService.calculateDelay(
-      options,
-      retriesLeft,
-      delay
-    );
-
-    this.logger.debug(
-      `Retrying in ${currentDelay}ms... Retries left: ${retriesLeft - 1}`
+    const reasonReportBuilder = reportBuilder.withRetryReason(
+      "result",
+      result,
+      execution.options.sanitizeRetryReasons !== false,
+      execution.sanitizationThreshold,
+      decision.rule
     );
 
-    const retryReportBuilder = reportBuilder
-      .withRetryReason(
-        "result",
-        result,
-        options.sanitizeRetryReasons !== false,
-        sanitizationThreshold
-      )
-      .withDelay(currentDelay);
-
-    if (currentDelay) {
-      await this.timer.delay(currentDelay);
-    }
-
-    return this.attempt(
-      fn,
-      options,
-      retriesLeft - 1,
-      delay,
-      timeout,
-      sanitizationThreshold,
-      retryReportBuilder
+    return this.retryAfterDelay(
+      execution,
+      retriesLeft,
+      reasonReportBuilder,
+      decision,
+      { status: "result", result }
     );
   }
 
-  private handleSuccess<T>(
+  private async handleSuccess<T>(
     result: T,
     reportBuilder: RetryReportBuilder,
     options: RetryOptions<T, any>
-  ): T {
-    const finalReport = reportBuilder.withSuccess(this.timer.now()).build();
-
-    if (options.onComplete) {
-      options.onComplete(finalReport);
-    }
+  ): Promise<T> {
+    await this.completeReport(
+      reportBuilder.withSuccess(this.timer.now()),
+      options
+    );
 
     return result;
   }
 
   private async handleError<T, E extends Error>(
     error: E,
-    fn: () => Promise<T>,
-    options: RetryOptions<T, E>,
+    execution: RetryExecution<T, E>,
     retriesLeft: number,
-    delay: number,
-    timeout: number | null,
-    sanitizationThreshold: number,
-    reportBuilder: RetryReportBuilder
+    reportBuilder: RetryReportBuilder,
+    errorPayload?: T
   ): Promise<T> {
+    const { options } = execution;
+
     this.logger.debug(
       `Error encountered: ${
         error instanceof Error ? error.message : "Unknown error"
@@ -521,7 +1808,24 @@ export class RetryService implements IRetry {
     );
 
     const errorReportBuilder = reportBuilder.withError(error);
-    const shouldRetry = !options.retryOnError || options.retryOnError(error);
+    let decision: RetryDecision;
+
+    try {
+      decision = await this.decide(
+        execution.options,
+        "retryOnError",
+        error,
+        this.remainingBudget(execution)
+      );
+    } catch (decisionError) {
+      return this.handleDecisionError(
+        decisionError,
+        errorReportBuilder,
+        options
+      );
+    }
+
+    const shouldRetry = decision.retry;
 
     if (!shouldRetry || retriesLeft <= 0) {
       return this.handleNonRetryableError(
@@ -529,102 +1833,566 @@ export class RetryService implements IRetry {
         errorReportBuilder,
         options,
         retriesLeft,
-        shouldRetry
+        shouldRetry,
+        errorPayload
       );
     }
 
-    return this.retryAfterError(
-      fn,
+    const reasonReportBuilder = errorReportBuilder.withRetryReason(
+      "error",
       error,
-      options,
+      options.sanitizeRetryReasons !== false,
+      execution.sanitizationThreshold,
+      decision.rule
+    );
+
+    return this.retryAfterDelay(
+      execution,
       retriesLeft,
-      delay,
-      timeout,
-      sanitizationThreshold,
-      errorReportBuilder
+      reasonReportBuilder,
+      decision,
+      { status: "error", error }
     );
   }
 
-  private handleNonRetryableError<T, E extends Error>(
+  private async handleNonRetryableError<T, E extends Error>(
     error: E,
     reportBuilder: RetryReportBuilder,
     options: RetryOptions<T, E>,
     retriesLeft: number,
-    shouldRetry: boolean
-  ): never {
+    shouldRetry: boolean,
+    errorPayload?: T
+  ): Promise<T> {
+    if (errorPayload !== undefined) {
+      this.logger.debug(
+        `No retries left or error is not retryable. Returning error payload`
+      );
+
+      await this.completeReport(
+        reportBuilder.withFailure(this.timer.now()),
+        options
+      );
+
+      return errorPayload;
+    }
+
     this.logger.debug(
       `No retries left or error is not retryable. Throwing error`
     );
 
-    const finalReport = reportBuilder.withFailure(this.timer.now()).build();
+    const finalError =
+      retriesLeft <= 0 && shouldRetry && error instanceof Error
+        ? new RetryAttemptsExceededError(
+            `Maximum retry attempts (${options.retries}) exceeded: ${error.message}`,
+            error
+          )
+        : error;
+
+    return this.giveUp(
+      finalError,
+      reportBuilder.withFailure(this.timer.now()),
+      options
+    );
+  }
 
-    if (options.onComplete) {
-      options.onComplete(finalReport);
+  /**
+   * Ends an operation whose attempts were not run by attempt, e.g. a hedge
+   */
+  private async finish<T, E extends Error>(
+    ending: RetryEnding<T>,
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, E>
+  ): Promise<T> {
+    switch (ending.status) {
+      case "success":
+        return this.handleSuccess(ending.result, reportBuilder, options);
+      case "failure":
+        return this.handleNonRetryableError(
+          ending.error as E,
+          reportBuilder,
+          options,
+          0,
+          ending.exhausted
+        );
+      case "decision-error":
+        return this.handleDecisionError(ending.error, reportBuilder, options);
+      case "timeout":
+        return this.handleTimeout(reportBuilder, options);
+      case "abort":
+        return this.handleAbort(reportBuilder, options);
     }
+  }
 
-    if (retriesLeft <= 0 && shouldRetry && error instanceof Error) {
-      throw new RetryAttemptsExceededError(
-        `Maximum retry attempts (${options.retries}) exceeded: ${error.message}`,
-        error
-      );
+  /**
+   * Ends the operation after no bulkhead slot could be taken
+   */
+  private async handleBulkheadError<T>(
+    error: unknown,
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): Promise<T> {
+    if (options.signal?.aborted) {
+      return this.handleAbort(reportBuilder, options);
+    }
+
+    if (error instanceof DeadlineReachedError) {
+      return this.handleTimeout(reportBuilder, options);
+    }
+
+    this.logger.debug(`${(error as Error).message}. Failing fast`);
+
+    return this.giveUp(
+      new BulkheadFullError(
+        (error as Error).message,
+        reportBuilder.lastError()
+      ),
+      reportBuilder.withFailure(this.timer.now()),
+      options
+    );
+  }
+
+  /**
+   * Ends the operation after a retry predicate failed, timed out or was
+   * interrupted by an abort
+   */
+  private async handleDecisionError<T>(
+    error: unknown,
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): Promise<T> {
+    if (options.signal?.aborted) {
+      return this.handleAbort(reportBuilder, options);
+    }
+
+    if (error instanceof DeadlineReachedError) {
+      return this.handleTimeout(reportBuilder, options);
+    }
+
+    this.logger.debug(
+      `${(error as RetryPredicateError).message}. Ending retry operation`
+    );
+
+    return this.giveUp(
+      error,
+      reportBuilder.withError(error).withFailure(this.timer.now()),
+      options
+    );
+  }
+
+  private async handleHookError<T>(
+    error: RetryHookError,
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): Promise<T> {
+    this.logger.debug(`${error.message}. Ending retry operation`);
+
+    return this.giveUp(
+      error,
+      reportBuilder.withError(error).withFailure(this.timer.now()),
+      options
+    );
+  }
+
+  /**
+   * Ends a failed operation with the fallback's result when a fallback
+   * is set and succeeds, and with the given error otherwise
+   */
+  private async giveUp<T>(
+    error: unknown,
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): Promise<T> {
+    if (options.fallback !== undefined) {
+      try {
+        const { fallback } = options;
+        const result =
+          typeof fallback === "function"
+            ? await (
+                fallback as (
+                  error: unknown,
+                  report: RetryReport
+                ) => T | Promise<T>
+              )(error, this.buildReport(reportBuilder, options))
+            : fallback;
+
+        this.logger.debug("Operation gave up, returning fallback result");
+
+        await this.completeReport(reportBuilder.withFallback(), options);
+
+        return result;
+      } catch (fallbackError) {
+        this.logger.warn(
+          `Fallback failed: ${
+            fallbackError instanceof Error
+              ? fallbackError.message
+              : String(fallbackError)
+          }`
+        );
+      }
     }
 
+    await this.completeReport(reportBuilder, options);
+
     // eslint-disable-next-line @typescript-eslint/no-throw-literal
     throw error;
   }
 
-  private async retryAfterError<T, E extends Error>(
-    fn: () => Promise<T>,
-    error: E,
+  /**
+   * Builds the final report, hands it to onComplete and, when the
+   * operation gave up, to onGiveUp
+   */
+  private async completeReport<T>(
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): Promise<RetryReport> {
+    const finalReport = this.buildReport(reportBuilder, options);
+
+    if (options.onComplete) {
+      options.onComplete(finalReport);
+    }
+
+    if (!finalReport.retryingOperationSucceeded && !finalReport.aborted) {
+      try {
+        await this.callHook(options, "onGiveUp", finalReport);
+      } catch (hookError) {
+        this.logger.warn((hookError as RetryHookError).message);
+      }
+    }
+
+    return finalReport;
+  }
+
+  /**
+   * Combines the reports of consecutive operations into one covering them all
+   */
+  private mergeReports(reports: RetryReport[], startTime: number): RetryReport {
+    const last = reports[reports.length - 1];
+
+    if (!last) {
+      return this.emptyReport();
+    }
+
+    const concat = <
+      K extends "delaySources" | "retryReasons" | "timeoutPhases",
+    >(
+      key: K
+    ): RetryReport[K] =>
+      reports.some((report) => report[key])
+        ? (reports.flatMap(
+            (report) => (report[key] ?? []) as unknown[]
+          ) as RetryReport[K])
+        : undefined;
+
+    const sum = (key: "queueTime" | "rateLimitWait"): number | undefined =>
+      reports.some((report) => report[key] !== undefined)
+        ? reports.reduce((total, report) => total + (report[key] ?? 0), 0)
+        : undefined;
+
+    const merged: RetryReport = {
+      ...last,
+      startTime,
+      totalTime: this.timer.now() - startTime,
+      attempts: reports.reduce((total, report) => total + report.attempts, 0),
+      errors: reports.flatMap((report) => report.errors),
+      delays: reports.flatMap((report) => report.delays),
+    };
+
+    const delaySources = concat("delaySources");
+    const retryReasons = concat("retryReasons");
+    const timeoutPhases = concat("timeoutPhases");
+    const queueTime = sum("queueTime");
+    const rateLimitWait = sum("rateLimitWait");
+
+    return {
+      ...merged,
+      ...(delaySources && { delaySources }),
+      ...(retryReasons && { retryReasons }),
+      ...(timeoutPhases && { timeoutPhases }),
+      ...(queueTime !== undefined && { queueTime }),
+      ...(rateLimitWait !== undefined && { rateLimitWait }),
+    };
+  }
+
+  /**
+   * Report of an operation that failed before its first attempt,
+   * e.g. because of invalid options
+   */
+  private emptyReport(): RetryReport {
+    const now = this.timer.now();
+
+    return new RetryReportBuilder(now).withFailure(now).build();
+  }
+
+  /**
+   * Builds the report, adding the circuit breaker's state when one is set
+   */
+  private buildReport<T>(
+    reportBuilder: RetryReportBuilder,
+    options: RetryOptions<T, any>
+  ): RetryReport {
+    return (
+      options.circuitBreaker
+        ? reportBuilder.withCircuitState(options.circuitBreaker.state)
+        : reportBuilder
+    ).build();
+  }
+
+  /**
+   * Awaits a lifecycle hook if it is set, wrapping anything it throws
+   * in a RetryHookError
+   */
+  private async callHook<T, E extends Error, K extends RetryHookName>(
     options: RetryOptions<T, E>,
+    hook: K,
+    ...args: Parameters<NonNullable<RetryOptions<T, E>[K]>>
+  ): Promise<void> {
+    const callback = options[hook] as
+      ((...hookArgs: typeof args) => void | Promise<void>) | undefined;
+
+    if (!callback) {
+      return;
+    }
+
+    try {
+      await callback(...args);
+    } catch (error) {
+      throw new RetryHookError(
+        `${hook} hook failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        hook,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private hookContext<T, E extends Error>(
+    execution: RetryExecution<T, E>,
+    retriesLeft: number
+  ): RetryHookContext {
+    return {
+      attempt: Math.max(0, execution.options.retries) - retriesLeft + 1,
+      retriesLeft,
+      startTime: execution.startTime,
+    };
+  }
+
+  private async retryAfterDelay<T, E extends Error>(
+    execution: RetryExecution<T, E>,
     retriesLeft: number,
-    delay: number,
-    timeout: number | null,
-    sanitizationThreshold: number,
-    reportBuilder: RetryReportBuilder
+    reportBuilder: RetryReportBuilder,
+    decision: RetryDecision,
+    outcome: AttemptOutcome<T>
   ): Promise<T> {
-    const currentDelay = RetryService.calculateDelay(
-      options,
-      retriesLeft,
-      delay
-    );
+    const { options } = execution;
+    const reason = outcome.status === "error" ? outcome.error : outcome.result;
+    const decidedDelay = this.decidedDelay(decision);
+    const delaySource: DelaySource =
+      decidedDelay === undefined ? "backoff" : "decision";
+    let currentDelay: number;
+
+    try {
+      currentDelay =
+        decidedDelay ??
+        this.calculateDelay(
+          options,
+          retriesLeft,
+          execution.delay,
+          reportBuilder.lastDelay()
+        );
+    } catch (error) {
+      return this.giveUp(error, reportBuilder, options);
+    }
 
     this.logger.debug(
       `Retrying in ${currentDelay}ms... Retries left: ${retriesLeft - 1}`
     );
 
-    const retryReportBuilder = reportBuilder
-      .withRetryReason(
-        "error",
-        error,
-        options.sanitizeRetryReasons !== false,
-        sanitizationThreshold
-      )
-      .withDelay(currentDelay);
+    const remaining = this.remainingBudget(execution);
+
+    if (remaining !== null && currentDelay >= remaining) {
+      this.logger.debug(
+        `Delay of ${currentDelay}ms would exceed the timeout, giving up`
+      );
+
+      return this.handleTimeout(reportBuilder, options);
+    }
+
+    if (execution.retryBudget && !execution.retryBudget.tryWithdraw()) {
+      return this.handleBudgetExhausted(reportBuilder, options);
+    }
+
+    try {
+      await this.callHook(
+        options,
+        "onRetry",
+        reason,
+        currentDelay,
+        this.hookContext(execution, retriesLeft)
+      );
+    } catch (hookError) {
+      return this.handleHookError(
+        hookError as RetryHookError,
+        reportBuilder,
+        options
+      );
+    }
+
+    const delayReportBuilder = reportBuilder.withDelay(
+      currentDelay,
+      delaySource
+    );
+    const delayStartedAt = this.phaseStart(execution);
 
     if (currentDelay) {
-      await this.timer.delay(currentDelay);
+      try {
+        await this.raceAbort(
+          this.sleep(currentDelay, options.signal),
+          options.signal
+        );
+      } catch {
+        return this.handleAbort(delayReportBuilder, options);
+      }
     }
 
     return this.attempt(
-      fn,
-      options,
+      execution,
       retriesLeft - 1,
-      delay,
-      timeout,
-      sanitizationThreshold,
-      retryReportBuilder
+      this.withPhase(execution, delayReportBuilder, "delay", delayStartedAt),
+      outcome
+    );
+  }
+
+  /**
+   * Evaluates a retry predicate, which may be async. Under a strict timeout
+   * the predicate is raced against the time remaining until the deadline.
+   * @throws RetryPredicateError if the predicate throws
+   */
+  private async decide<T, E extends Error>(
+    options: RetryOptions<T, E>,
+    predicate: RetryPredicateName,
+    value: unknown,
+    remaining: number | null = null
+  ): Promise<RetryDecision> {
+    const callback = options[predicate] as
+      | ((
+          value: unknown
+        ) => boolean | RetryDecision | Promise<boolean | RetryDecision>)
+      | undefined;
+
+    if (!callback) {
+      return { retry: predicate === "retryOnError" };
+    }
+
+    const pending = (async () => {
+      try {
+        return await callback(value);
+      } catch (error) {
+        throw new RetryPredicateError(
+          `${predicate} failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          predicate,
+          error instanceof Error ? error : undefined
+        );
+      }
+    })();
+
+    const outcome = await this.raceAbort(
+      remaining === null
+        ? pending
+        : this.raceTimer(
+            pending,
+            remaining,
+            () => new DeadlineReachedError("Retry timeout exceeded")
+          ),
+      options.signal
     );
+
+    return RetryService.toDecision(outcome);
   }
 
-  private static calculateDelay(
+  /**
+   * Normalizes the answer of a retry predicate
+   */
+  private static toDecision(outcome: boolean | RetryDecision): RetryDecision {
+    return typeof outcome === "boolean" ? { retry: outcome } : outcome;
+  }
+
+  /**
+   * Returns the delay dictated by a retry decision, if it dictates one
+   */
+  private decidedDelay(decision: RetryDecision): number | undefined {
+    if (decision.delay !== undefined) {
+      return Math.min(Math.max(0, Math.round(decision.delay)), MAX_TIMER_DELAY);
+    }
+
+    if (decision.retryAt !== undefined) {
+      const retryAt =
+        decision.retryAt instanceof Date
+          ? decision.retryAt.getTime()
+          : decision.retryAt;
+
+      return Math.min(
+        Math.max(0, Math.round(retryAt - this.timer.now())),
+        MAX_TIMER_DELAY
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Gives back the circuit breaker permission of an attempt that ended
+   * without an outcome
+   */
+  private releasePermission<T>(
+    options: RetryOptions<T, any>,
+    permission: CircuitPermission | undefined
+  ): void {
+    if (permission) {
+      options.circuitBreaker?.releasePermission(permission);
+    }
+  }
+
+  /**
+   * Waits on the timer, only handing it the signal when one is given
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return signal ? this.timer.delay(ms, signal) : this.timer.delay(ms);
+  }
+
+  private calculateDelay(
     options: RetryOptions<any, any>,
     retriesLeft: number,
-    baseDelay: number
+    baseDelay: number,
+    previousDelay?: number
   ): number {
-    return options.exponentialBackoff
-      ? baseDelay * (options.retries - retriesLeft + 1)
-      : baseDelay;
+    const strategy =
+      options.backoff ??
+      (options.exponentialBackoff ? Backoff.linear() : Backoff.constant());
+
+    const rawDelay = strategy({
+      retryNumber: options.retries - retriesLeft + 1,
+      baseDelay,
+      previousDelay: previousDelay ?? baseDelay,
+      random: this.random,
+    });
+
+    // Infinity, e.g. an exponential backoff that overflowed, is clamped below
+    if (Number.isNaN(rawDelay) || rawDelay < 0) {
+      throw new RetryConfigurationError(
+        `Backoff strategy returned an invalid delay: ${rawDelay}`
+      );
+    }
+
+    const clampedDelay = Math.min(
+      Math.max(rawDelay, options.minDelay ?? 0),
+      options.maxDelay ?? Infinity,
+      MAX_TIMER_DELAY
+    );
+
+    return Math.round(clampedDelay);
   }
 
   /**
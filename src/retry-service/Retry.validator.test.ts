@@ -0,0 +1,268 @@
+import { LogHandler } from "../logger-service/Logger.service";
+import { RetryConfigurationError } from "./Retry.service";
+import type { RetryOptions } from "./Retry.service";
+import { RetryOptionsValidator } from "./Retry.validator";
+
+describe("RetryOptionsValidator", () => {
+  let mockLogger: LogHandler;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: vi.fn(),
+      error: vi.fn(),
+      trace: vi.fn(),
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+    };
+  });
+
+  it("should accept valid options", () => {
+    // When
+    const validation = RetryOptionsValidator.validate({
+      retries: 3,
+      delay: 100,
+      timeout: 5000,
+      retryOnError: () => true,
+    });
+
+    // Then
+    expect(validation).toEqual({ errors: [], warnings: [] });
+  });
+
+  it.each([
+    { name: "NaN", value: NaN },
+    { name: "Infinity", value: Infinity },
+    { name: "a fraction", value: 1.5 },
+    { name: "a negative number", value: -1 },
+    { name: "a string", value: "3" },
+  ])("should reject retries that are $name", ({ value }) => {
+    // When
+    const { errors } = RetryOptionsValidator.validate({ retries: value });
+
+    // Then
+    expect(errors).toEqual([
+      { field: "retries", value, reason: "must be a non-negative integer" },
+    ]);
+  });
+
+  it("should collect every error instead of stopping at the first", () => {
+    // When
+    const { errors } = RetryOptionsValidator.validate({
+      delay: -100,
+      timeout: 0,
+      strictTimeout: "yes",
+      minDelay: 500,
+      maxDelay: 100,
+      onRetry: "log",
+    });
+
+    // Then
+    expect(errors.map((error) => error.field)).toEqual([
+      "retries",
+      "delay",
+      "timeout",
+      "strictTimeout",
+      "onRetry",
+      "minDelay",
+    ]);
+  });
+
+  it("should warn about unknown options and suggest the closest one", () => {
+    // When
+    const { errors, warnings } = RetryOptionsValidator.validate({
+      retries: 3,
+      retry: 5,
+      color: "blue",
+    });
+
+    // Then
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([
+      {
+        field: "retry",
+        value: 5,
+        reason: 'is not a retry option, did you mean "retries"?',
+      },
+      { field: "color", value: "blue", reason: "is not a retry option" },
+    ]);
+  });
+
+  it.each([
+    {
+      name: "a timeout that runs out before the first retry",
+      options: { retries: 3, delay: 2000, timeout: 1000 },
+      field: "timeout",
+    },
+    {
+      name: "an attempt timeout that is never shorter than the timeout",
+      options: { retries: 3, timeout: 1000, attemptTimeout: 1000 },
+      field: "attemptTimeout",
+    },
+  ])("should warn about $name", ({ options, field }) => {
+    // When
+    const { errors, warnings } = RetryOptionsValidator.validate(options);
+
+    // Then
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([expect.objectContaining({ field })]);
+  });
+
+  it("should not warn about the first delay when a backoff strategy is set", () => {
+    // When
+    const { warnings } = RetryOptionsValidator.validate({
+      retries: 3,
+      delay: 2000,
+      timeout: 1000,
+      backoff: () => 10,
+    });
+
+    // Then
+    expect(warnings).toEqual([]);
+  });
+
+  it("should describe a bad sanitization threshold as a number of characters", () => {
+    // When
+    const { errors } = RetryOptionsValidator.validate({
+      retries: 1,
+      sanitizationThreshold: -1,
+    });
+
+    // Then
+    expect(errors).toEqual([
+      {
+        field: "sanitizationThreshold",
+        value: -1,
+        reason: "must be a finite number of characters, zero or more",
+      },
+    ]);
+  });
+
+  describe("hedge options", () => {
+    it("should collect every error", () => {
+      // When
+      const { errors } = RetryOptionsValidator.validate(
+        { maxHedges: NaN, timeout: 0 },
+        "hedge"
+      );
+
+      // Then
+      expect(errors).toEqual([
+        { field: "hedgeDelay", value: undefined, reason: "is required" },
+        {
+          field: "maxHedges",
+          value: NaN,
+          reason: "must be a non-negative integer",
+        },
+        {
+          field: "timeout",
+          value: 0,
+          reason: "must be a finite number of milliseconds greater than zero",
+        },
+      ]);
+    });
+
+    it("should warn about options hedge does not take", () => {
+      // When
+      const { warnings } = RetryOptionsValidator.validate(
+        { hedgeDelay: 100, retries: 3 },
+        "hedge"
+      );
+
+      // Then
+      expect(warnings).toEqual([
+        { field: "retries", value: 3, reason: "is not a hedge option" },
+      ]);
+    });
+  });
+
+  describe("batch options", () => {
+    it("should check batch and retry options together", () => {
+      // When
+      const { errors } = RetryOptionsValidator.validate(
+        {
+          retries: -1,
+          concurrency: 0,
+          failureRatioThreshold: NaN,
+          minimumItems: 1.5,
+        },
+        "batch"
+      );
+
+      // Then
+      expect(errors).toEqual([
+        {
+          field: "retries",
+          value: -1,
+          reason: "must be a non-negative integer",
+        },
+        {
+          field: "concurrency",
+          value: 0,
+          reason: "must be a positive integer or Infinity",
+        },
+        {
+          field: "failureRatioThreshold",
+          value: NaN,
+          reason: "must be a number between 0 and 1",
+        },
+        {
+          field: "minimumItems",
+          value: 1.5,
+          reason: "must be a positive integer",
+        },
+      ]);
+    });
+
+    it("should accept an unlimited concurrency", () => {
+      // When
+      const { errors } = RetryOptionsValidator.validate(
+        { retries: 1, concurrency: Infinity },
+        "batch"
+      );
+
+      // Then
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe("assertValid", () => {
+    it("should throw one RetryConfigurationError listing every error", () => {
+      // Given
+      const options = { retries: NaN, delay: -1 };
+
+      // When/Then
+      expect(() => RetryOptionsValidator.assertValid(options)).toThrow(
+        new RetryConfigurationError(
+          "Invalid retry options: retries must be a non-negative integer (got NaN); delay must be a finite number of milliseconds, zero or more (got -1)",
+          undefined,
+          [
+            {
+              field: "retries",
+              value: NaN,
+              reason: "must be a non-negative integer",
+            },
+            {
+              field: "delay",
+              value: -1,
+              reason: "must be a finite number of milliseconds, zero or more",
+            },
+          ]
+        )
+      );
+    });
+
+    it("should log warnings without throwing", () => {
+      // Given
+      const options = { retries: 3, retry: 5 } as RetryOptions;
+
+      // When
+      RetryOptionsValidator.assertValid(options, mockLogger);
+
+      // Then
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Retry options: retry is not a retry option, did you mean "retries"? (got 5)'
+      );
+    });
+  });
+});
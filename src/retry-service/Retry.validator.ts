@@ -0,0 +1,384 @@
+import type { LogHandler } from "../logger-service/Logger.service";
+import { RetryConfigurationError } from "./Retry.service";
+import type { RetryConfigurationIssue, RetryOptions } from "./Retry.service";
+import type { HedgeOptions } from "./Retry.hedge";
+import type { RetryAllOptions } from "./Retry.batch";
+
+/**
+ * Outcome of validating retry options.
+ * Errors make the options unusable, warnings point at options that are
+ * accepted but very likely not doing what was intended.
+ */
+export interface RetryOptionsValidation {
+  errors: RetryConfigurationIssue[];
+  warnings: RetryConfigurationIssue[];
+}
+
+/**
+ * Entry point the options are meant for: retry and retryAsPayload,
+ * hedge, or retryAll
+ */
+export type RetryOptionsMode = "retry" | "hedge" | "batch";
+
+type OptionKind =
+  | "count"
+  | "positive-count"
+  | "limit"
+  | "ratio"
+  | "characters"
+  | "duration"
+  | "positive-duration"
+  | "boolean"
+  | "function"
+  | "object"
+  | "string"
+  | "any";
+
+/**
+ * Every option RetryOptions knows about and the kind of value it takes.
+ * Typed as a Record so that a new option cannot be added without it.
+ */
+const OPTION_KINDS: Record<keyof RetryOptions, OptionKind> = {
+  retries: "count",
+  delay: "duration",
+  exponentialBackoff: "boolean",
+  backoff: "function",
+  maxDelay: "duration",
+  minDelay: "duration",
+  retryOnError: "function",
+  retryOnResult: "function",
+  timeout: "positive-duration",
+  strictTimeout: "boolean",
+  attemptTimeout: "positive-duration",
+  circuitBreaker: "object",
+  retryBudget: "object",
+  bulkhead: "object",
+  rateLimiter: "object",
+  beforeAttempt: "function",
+  afterAttempt: "function",
+  onRetry: "function",
+  onGiveUp: "function",
+  payloadAware: "boolean",
+  fallback: "any",
+  onComplete: "function",
+  sanitizeRetryReasons: "boolean",
+  sanitizationThreshold: "characters",
+  signal: "object",
+  operationName: "string",
+};
+
+const HEDGE_OPTION_KINDS: Record<keyof HedgeOptions, OptionKind> = {
+  hedgeDelay: "duration",
+  maxHedges: "count",
+  timeout: OPTION_KINDS.timeout,
+  retryOnError: OPTION_KINDS.retryOnError,
+  retryOnResult: OPTION_KINDS.retryOnResult,
+  signal: OPTION_KINDS.signal,
+  fallback: OPTION_KINDS.fallback,
+  onGiveUp: OPTION_KINDS.onGiveUp,
+  onComplete: OPTION_KINDS.onComplete,
+  sanitizeRetryReasons: OPTION_KINDS.sanitizeRetryReasons,
+  sanitizationThreshold: OPTION_KINDS.sanitizationThreshold,
+  operationName: OPTION_KINDS.operationName,
+};
+
+const BATCH_OPTION_KINDS: Record<keyof RetryAllOptions, OptionKind> = {
+  ...OPTION_KINDS,
+  concurrency: "limit",
+  failureRatioThreshold: "ratio",
+  minimumItems: "positive-count",
+  slowestItems: "count",
+};
+
+/**
+ * Options every entry point knows about, and those it cannot do without
+ */
+const SCHEMAS: Record<
+  RetryOptionsMode,
+  { kinds: Record<string, OptionKind>; required: string[] }
+> = {
+  retry: { kinds: OPTION_KINDS, required: ["retries"] },
+  hedge: { kinds: HEDGE_OPTION_KINDS, required: ["hedgeDelay"] },
+  batch: { kinds: BATCH_OPTION_KINDS, required: ["retries"] },
+};
+
+/**
+ * Checks retry options as a whole instead of stopping at the first problem.
+ *
+ * Besides the type and range of every option, it flags unknown options,
+ * which are usually typos such as `retry` for `retries`, and combinations
+ * that cannot work, such as a timeout that runs out before the first retry.
+ * Configuration loaders can use it to report every problem at once.
+ * The options of hedge and retryAll are checked against their own schema.
+ *
+ * @example
+ * const { errors, warnings } = RetryOptionsValidator.validate(loadedOptions);
+ */
+export class RetryOptionsValidator {
+  /**
+   * Collects every problem with the options without throwing
+   */
+  static validate(
+    options: unknown,
+    mode: RetryOptionsMode = "retry"
+  ): RetryOptionsValidation {
+    const { kinds, required } = SCHEMAS[mode];
+    const errors: RetryConfigurationIssue[] = [];
+    const warnings: RetryConfigurationIssue[] = [];
+
+    if (typeof options !== "object" || options === null) {
+      errors.push({
+        field: "options",
+        value: options,
+        reason: "must be an object",
+      });
+
+      return { errors, warnings };
+    }
+
+    const record = options as Record<string, unknown>;
+
+    required
+      .filter((field) => record[field] === undefined)
+      .forEach((field) =>
+        errors.push({ field, value: undefined, reason: "is required" })
+      );
+
+    for (const [field, value] of Object.entries(record)) {
+      if (!Object.prototype.hasOwnProperty.call(kinds, field)) {
+        const suggestion = RetryOptionsValidator.suggest(field, kinds);
+        warnings.push({
+          field,
+          value,
+          reason: suggestion
+            ? `is not a ${mode} option, did you mean "${suggestion}"?`
+            : `is not a ${mode} option`,
+        });
+        continue;
+      }
+
+      const reason = RetryOptionsValidator.checkValue(kinds[field], value);
+
+      if (reason) {
+        errors.push({ field, value, reason });
+      }
+    }
+
+    RetryOptionsValidator.checkCombinations(record, errors, warnings);
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Throws when the options have errors and logs their warnings
+   * @throws RetryConfigurationError listing every error in its issues
+   */
+  static assertValid(
+    options: object,
+    logger?: LogHandler,
+    mode: RetryOptionsMode = "retry"
+  ): void {
+    const { errors, warnings } = RetryOptionsValidator.validate(options, mode);
+    const label = `${mode[0].toUpperCase()}${mode.slice(1)} options`;
+
+    warnings.forEach((warning) =>
+      logger?.warn(`${label}: ${RetryOptionsValidator.describe(warning)}`)
+    );
+
+    if (errors.length > 0) {
+      throw new RetryConfigurationError(
+        `Invalid ${mode} options: ${errors
+          .map(RetryOptionsValidator.describe)
+          .join("; ")}`,
+        undefined,
+        errors
+      );
+    }
+  }
+
+  /**
+   * Formats an issue as "field reason (got value)"
+   */
+  static describe(issue: RetryConfigurationIssue): string {
+    const value =
+      typeof issue.value === "function"
+        ? "a function"
+        : typeof issue.value === "string"
+          ? `"${issue.value}"`
+          : String(issue.value);
+
+    return issue.value === undefined
+      ? `${issue.field} ${issue.reason}`
+      : `${issue.field} ${issue.reason} (got ${value})`;
+  }
+
+  private static checkValue(
+    kind: OptionKind,
+    value: unknown
+  ): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    switch (kind) {
+      case "count":
+        return Number.isInteger(value) && (value as number) >= 0
+          ? undefined
+          : "must be a non-negative integer";
+      case "positive-count":
+        return Number.isInteger(value) && (value as number) >= 1
+          ? undefined
+          : "must be a positive integer";
+      case "limit":
+        return value === Infinity ||
+          (Number.isInteger(value) && (value as number) >= 1)
+          ? undefined
+          : "must be a positive integer or Infinity";
+      case "ratio":
+        return typeof value === "number" && value >= 0 && value <= 1
+          ? undefined
+          : "must be a number between 0 and 1";
+      case "characters":
+        return typeof value === "number" && Number.isFinite(value) && value >= 0
+          ? undefined
+          : "must be a finite number of characters, zero or more";
+      case "duration":
+        return typeof value === "number" && Number.isFinite(value) && value >= 0
+          ? undefined
+          : "must be a finite number of milliseconds, zero or more";
+      case "positive-duration":
+        return typeof value === "number" && Number.isFinite(value) && value > 0
+          ? undefined
+          : "must be a finite number of milliseconds greater than zero";
+      case "boolean":
+        return typeof value === "boolean" ? undefined : "must be a boolean";
+      case "function":
+        return typeof value === "function" ? undefined : "must be a function";
+      case "object":
+        return typeof value === "object" && value !== null
+          ? undefined
+          : "must be an object";
+      case "string":
+        return typeof value === "string" ? undefined : "must be a string";
+      case "any":
+        return undefined;
+    }
+  }
+
+  private static checkCombinations(
+    options: Partial<Record<keyof RetryOptions, unknown>>,
+    errors: RetryConfigurationIssue[],
+    warnings: RetryConfigurationIssue[]
+  ): void {
+    const { retries, delay, minDelay, maxDelay, timeout, attemptTimeout } =
+      options;
+
+    if (options.strictTimeout === true && timeout === undefined) {
+      errors.push({
+        field: "strictTimeout",
+        value: true,
+        reason: "requires a timeout",
+      });
+    }
+
+    if (
+      typeof minDelay === "number" &&
+      typeof maxDelay === "number" &&
+      minDelay > maxDelay
+    ) {
+      errors.push({
+        field: "minDelay",
+        value: minDelay,
+        reason: `cannot be greater than maxDelay (${maxDelay})`,
+      });
+    }
+
+    if (
+      typeof timeout === "number" &&
+      typeof retries === "number" &&
+      retries > 0 &&
+      options.backoff === undefined
+    ) {
+      const firstDelay = Math.min(
+        Math.max(
+          typeof delay === "number" ? delay : 0,
+          typeof minDelay === "number" ? minDelay : 0
+        ),
+        typeof maxDelay === "number" ? maxDelay : Infinity
+      );
+
+      if (firstDelay > 0 && timeout <= firstDelay) {
+        warnings.push({
+          field: "timeout",
+          value: timeout,
+          reason: `runs out before the first retry, which waits ${firstDelay}ms`,
+        });
+      }
+    }
+
+    if (
+      typeof timeout === "number" &&
+      typeof attemptTimeout === "number" &&
+      attemptTimeout >= timeout
+    ) {
+      warnings.push({
+        field: "attemptTimeout",
+        value: attemptTimeout,
+        reason: `never applies, as it is not shorter than timeout (${timeout})`,
+      });
+    }
+  }
+
+  /**
+   * Closest known option, for options that look like a typo of one.
+   * Options starting with the same letters win over closer ones that
+   * don't, so "retry" suggests "retries" rather than "onRetry".
+   */
+  private static suggest(
+    field: string,
+    kinds: Record<string, OptionKind>
+  ): string | undefined {
+    const maxDistance = Math.max(2, Math.ceil(field.length / 2));
+    const lowerField = field.toLowerCase();
+
+    const candidates = Object.keys(kinds)
+      .map((option) => ({
+        option,
+        sameStart: option.toLowerCase().startsWith(lowerField.slice(0, 3)),
+        distance: RetryOptionsValidator.distance(
+          lowerField,
+          option.toLowerCase()
+        ),
+      }))
+      .filter(({ distance }) => distance <= maxDistance)
+      .sort(
+        (a, b) =>
+          Number(b.sameStart) - Number(a.sameStart) || a.distance - b.distance
+      );
+
+    return candidates[0]?.option;
+  }
+
+  /**
+   * Levenshtein distance between two strings
+   */
+  private static distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+}
@@ -0,0 +1,63 @@
+import RetryAfterUtil from "./RetryAfter.utils";
+
+describe("RetryAfterUtil", () => {
+  const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+  describe("parse", () => {
+    it.each([
+      { value: "0", expected: 0 },
+      { value: "1", expected: 1000 },
+      { value: "120", expected: 120_000 },
+      { value: " 30 ", expected: 30_000 },
+    ])("should parse $value seconds", ({ value, expected }) => {
+      // When
+      const result = RetryAfterUtil.parse(value, now);
+
+      // Then
+      expect(result).toBe(expected);
+    });
+
+    it("should parse an HTTP-date relative to now", () => {
+      // When
+      const result = RetryAfterUtil.parse("Wed, 21 Oct 2015 07:28:45 GMT", now);
+
+      // Then
+      expect(result).toBe(45_000);
+    });
+
+    it("should return zero for an HTTP-date in the past", () => {
+      // When
+      const result = RetryAfterUtil.parse("Wed, 21 Oct 2015 07:27:00 GMT", now);
+
+      // Then
+      expect(result).toBe(0);
+    });
+
+    it("should default to the current time", () => {
+      // Given
+      const inOneMinute = new Date(Date.now() + 60_000).toUTCString();
+
+      // When
+      const result = RetryAfterUtil.parse(inOneMinute);
+
+      // Then
+      expect(result).toBeGreaterThan(58_000);
+      expect(result).toBeLessThanOrEqual(60_000);
+    });
+
+    it.each([
+      { name: "null", value: null },
+      { name: "undefined", value: undefined },
+      { name: "an empty string", value: "" },
+      { name: "negative seconds", value: "-5" },
+      { name: "fractional seconds", value: "1.5" },
+      { name: "garbage", value: "soon" },
+    ])("should return undefined for $name", ({ value }) => {
+      // When
+      const result = RetryAfterUtil.parse(value, now);
+
+      // Then
+      expect(result).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,38 @@
+class RetryAfterUtil {
+  /**
+   * Parses an HTTP Retry-After header value into a delay in milliseconds.
+   *
+   * Accepts both forms allowed by RFC 9110: a number of seconds ("120") and
+   * an HTTP-date ("Wed, 21 Oct 2015 07:28:00 GMT"). Dates in the past give
+   * a delay of zero.
+   *
+   * @param value The header value, e.g. from response.headers.get("Retry-After")
+   * @param now Current time in milliseconds, defaults to Date.now()
+   * @returns The delay in milliseconds, or undefined when the value is missing or invalid
+   */
+  static parse(
+    value: string | null | undefined,
+    now: number = Date.now()
+  ): number | undefined {
+    const trimmed = value?.trim();
+
+    if (!trimmed) {
+      return undefined;
+    }
+
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) * 1000;
+    }
+
+    // HTTP-dates always spell out the day and month names
+    const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+
+    if (Number.isNaN(date)) {
+      return undefined;
+    }
+
+    return Math.max(0, date - now);
+  }
+}
+
+export default RetryAfterUtil;